@@ -11,6 +11,8 @@ import type {
   MindmapCreate,
   MindmapUpdate,
   MindmapsListResponse,
+  MindmapVersion,
+  MindmapVersionsListResponse,
 } from '@/schemas'
 
 /**
@@ -23,6 +25,9 @@ export const mindmapsKeys = {
     [...mindmapsKeys.lists(), params] as const,
   details: () => [...mindmapsKeys.all, 'detail'] as const,
   detail: (id: number) => [...mindmapsKeys.details(), id] as const,
+  versions: (id: number) => [...mindmapsKeys.detail(id), 'versions'] as const,
+  version: (id: number, versionId: number) =>
+    [...mindmapsKeys.versions(id), versionId] as const,
 }
 
 /**
@@ -47,6 +52,30 @@ export const useMindmap = (id: number | undefined) => {
   })
 }
 
+/**
+ * Fetch versions of a mindmap (newest first)
+ */
+export const useMindmapVersions = (id: number | undefined) => {
+  return useQuery({
+    queryKey: mindmapsKeys.versions(id!),
+    queryFn: () =>
+      apiClient.get<MindmapVersionsListResponse>(`/api/mindmaps/${id}/versions`),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Fetch single version of a mindmap
+ */
+export const useMindmapVersion = (id: number | undefined, versionId: number | undefined) => {
+  return useQuery({
+    queryKey: mindmapsKeys.version(id!, versionId!),
+    queryFn: () =>
+      apiClient.get<MindmapVersion>(`/api/mindmaps/${id}/versions/${versionId}`),
+    enabled: !!id && !!versionId,
+  })
+}
+
 /**
  * Create new mindmap
  */
@@ -0,0 +1,213 @@
+/**
+ * <mind-map> Custom Element
+ *
+ * Framework-free wrapper around `MindmapRenderer` for pages that cannot run
+ * the app, such as static documentation sites:
+ *
+ *   <mind-map layout="radial" theme="dark">
+ *     Root
+ *       Branch
+ *         Leaf
+ *   </mind-map>
+ *
+ *   <mind-map src="/maps/roadmap.md"></mind-map>
+ *
+ * The document comes from the `src` URL, or else from the element's text
+ * (wrap it in `<script type="text/plain">` if it contains `<` or `&`). The
+ * common indentation of inline text is removed. The format is taken from
+ * the `format` attribute, else from the file name, else detected.
+ *
+ * Observed attributes: `src`, `format`, `layout`, `theme`, `zoom` and
+ * `interactive` (same values as the embed options in `lib/embed`). The map
+ * renders in a shadow root with its own stylesheet.
+ */
+
+import { useEffect, useState } from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import MindmapRenderer from '@/components/MindmapRenderer'
+import { detectFormat, importFile, parseDocument } from '@/lib/formats'
+import { toggleNodeCollapsed } from '@/lib/mindmap-parser'
+import { parseEmbedOptions, type EmbedOptions } from '@/lib/embed'
+import { DocumentFormatSchema, type DocumentFormat, type MindmapNode } from '@/schemas'
+import styles from '@/mind-map-element.css?inline'
+
+const OBSERVED_ATTRIBUTES = ['src', 'format', 'layout', 'theme', 'zoom', 'interactive']
+
+// Document text, with the file it came from (if any)
+type Source = { text: string; fileName?: string } | { error: string }
+
+export class MindMapElement extends HTMLElement {
+  static observedAttributes = OBSERVED_ATTRIBUTES
+
+  private root: Root | null = null
+  // Null while loading
+  private source: Source | null = null
+  private loadedSrc: string | null = null
+  // Incremented per load so stale responses are dropped
+  private request = 0
+  private observer = new MutationObserver(() => {
+    if (!this.hasAttribute('src')) this.update()
+  })
+
+  connectedCallback(): void {
+    if (!this.root) {
+      const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' })
+      const style = document.createElement('style')
+      style.textContent = styles
+      const container = document.createElement('div')
+      container.style.height = '100%'
+      shadow.replaceChildren(style, container)
+      this.root = createRoot(container)
+    }
+    this.observer.observe(this, { childList: true, characterData: true, subtree: true })
+    this.update()
+  }
+
+  disconnectedCallback(): void {
+    this.observer.disconnect()
+    // Unmount later: the element may only be moving within the page
+    queueMicrotask(() => {
+      if (this.isConnected || !this.root) return
+      this.root.unmount()
+      this.root = null
+    })
+  }
+
+  attributeChangedCallback(): void {
+    if (this.root) this.update()
+  }
+
+  // Read inline text or start loading `src`, then render
+  private update(): void {
+    const src = this.getAttribute('src')
+    if (!src) {
+      this.request++
+      this.loadedSrc = null
+      this.source = { text: dedent(this.textContent ?? '') }
+    } else if (src !== this.loadedSrc) {
+      this.loadedSrc = src
+      this.source = null
+      void this.load(src)
+    }
+    this.render()
+  }
+
+  private async load(src: string): Promise<void> {
+    const request = ++this.request
+    let source: Source
+    try {
+      const url = new URL(src, document.baseURI)
+      const response = await fetch(url)
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      source = { text: await response.text(), fileName: url.pathname }
+    } catch (err) {
+      source = { error: `Failed to load ${src}: ${err instanceof Error ? err.message : err}` }
+    }
+    if (request !== this.request) return
+    this.source = source
+    this.render()
+  }
+
+  private render(): void {
+    if (!this.root) return
+
+    const options = parseEmbedOptions(
+      Object.fromEntries(OBSERVED_ATTRIBUTES.map((name) => [name, this.getAttribute(name) ?? undefined]))
+    )
+    if (!this.source) {
+      this.root.render(<Message text="Loading…" options={options} />)
+      return
+    }
+    if ('error' in this.source) {
+      this.root.render(<Message text={this.source.error} options={options} />)
+      return
+    }
+
+    try {
+      const { content, format } = this.resolveDocument(this.source)
+      this.root.render(<MindMapView content={content} format={format} options={options} />)
+    } catch (err) {
+      this.root.render(<Message text={err instanceof Error ? err.message : String(err)} options={options} />)
+    }
+  }
+
+  private resolveDocument(source: { text: string; fileName?: string }) {
+    const format = DocumentFormatSchema.safeParse(this.getAttribute('format'))
+    if (format.success) return { content: source.text, format: format.data }
+    if (source.fileName) return importFile(source.fileName, source.text)
+    return { content: source.text, format: detectFormat(source.text) }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mind-map': MindMapElement
+  }
+}
+
+/**
+ * Register the element (once) under the given tag name
+ */
+export function defineMindMapElement(tagName: string = 'mind-map'): void {
+  if (!customElements.get(tagName)) customElements.define(tagName, MindMapElement)
+}
+
+/**
+ * Remove leading blank lines and the indentation shared by all lines
+ */
+export function dedent(text: string): string {
+  const lines = text.replace(/^\s*\n/, '').trimEnd().split('\n')
+  const indents = lines
+    .filter((line) => line.trim() !== '')
+    .map((line) => line.length - line.trimStart().length)
+  const indent = indents.length > 0 ? Math.min(...indents) : 0
+  return lines.map((line) => line.slice(indent)).join('\n')
+}
+
+function MindMapView({
+  content,
+  format,
+  options,
+}: {
+  content: string
+  format: DocumentFormat
+  options: EmbedOptions
+}) {
+  const [tree, setTree] = useState<MindmapNode | null>(null)
+  const interactive = options.interactive ?? true
+
+  useEffect(() => {
+    try {
+      setTree(parseDocument(content, format).tree)
+    } catch (err) {
+      console.error('Failed to parse mindmap:', err)
+      setTree(null)
+    }
+  }, [content, format])
+
+  return (
+    <MindmapRenderer
+      nodes={tree}
+      layout={options.layout}
+      theme={options.theme}
+      initialZoom={options.zoom}
+      interactive={interactive}
+      onToggleCollapse={
+        interactive
+          ? (node) => setTree((current) => current && toggleNodeCollapsed(current, node.id))
+          : undefined
+      }
+    />
+  )
+}
+
+function Message({ text, options }: { text: string; options: EmbedOptions }) {
+  const dark = options.theme === 'dark'
+  return (
+    <div
+      className={`flex items-center justify-center h-full p-4 text-sm ${dark ? 'bg-gray-900 text-gray-400' : 'bg-gray-50 text-gray-500'}`}
+    >
+      {text}
+    </div>
+  )
+}
@@ -2,35 +2,106 @@
  * Mindmap Renderer Component
  *
  * Renders mindmap tree structure as SVG visualization.
- * Supports zoom and pan interactions.
+ * Supports zoom and pan interactions, and click-to-fold on nodes. The view
+ * can also be driven through a ref (see `MindmapRendererHandle`).
  */
 
-import { useEffect, useRef, useState, useCallback } from 'react'
+import {
+  useEffect,
+  useRef,
+  useState,
+  useCallback,
+  useMemo,
+  useId,
+  useImperativeHandle,
+  type Ref,
+} from 'react'
 import type { MindmapNode } from '@/schemas'
 import {
   calculateLayout,
   getBoundingBox,
   flattenPositions,
-  type NodePosition,
-} from '@/lib/mindmap-parser'
+  type LayoutMode,
+} from '@/lib/mindmap-layout'
+import type { NodeDiff } from '@/lib/tree-diff'
+import MindmapScene, { type SceneTheme } from './MindmapScene'
+
+// View controls for parents (e.g. the embed's message API)
+export interface MindmapRendererHandle {
+  fit: () => void
+  // Zoom around the center of the viewport
+  zoomTo: (scale: number) => void
+  // Center a node at the current zoom
+  centerOn: (nodeId: string) => void
+}
 
 interface MindmapRendererProps {
+  ref?: Ref<MindmapRendererHandle>
   nodes: MindmapNode | null
   className?: string
+  layout?: LayoutMode
+  // Called when a node with children is clicked (to fold/unfold it)
+  onToggleCollapse?: (node: MindmapNode) => void
+  // Node and background colors (default: light)
+  theme?: SceneTheme
+  // Zoom applied when the map first appears: a scale or 'fit' (default: 1)
+  initialZoom?: number | 'fit'
+  // Node to center when the map first appears
+  focusNodeId?: string
+  // Allow pan, zoom and folding (default: true)
+  interactive?: boolean
+  // Called when any node is clicked (also when not interactive)
+  onNodeClick?: (node: MindmapNode) => void
+  // Called with the size (px) needed to show the whole map at 100%
+  onContentSize?: (size: { width: number; height: number }) => void
+  // Compare mode: changes to show by node ID (nodes is the overlay tree
+  // from `buildDiffOverlay`)
+  diff?: Map<string, NodeDiff>
+  // Compare mode: translated tooltip line for a renamed node's old text
+  formatPreviousText?: (text: string) => string
+}
+
+// Pointer movement (px) after which a press counts as a pan, not a click
+const DRAG_THRESHOLD = 3
+
+// Space kept around the map by Fit, and in the reported content size
+const FIT_PADDING = 100
+
+const BACKGROUNDS: Record<SceneTheme, string> = {
+  light: 'bg-gray-50',
+  dark: 'bg-gray-900',
 }
 
 export default function MindmapRenderer({
+  ref,
   nodes,
   className = '',
+  layout: layoutMode = 'horizontal',
+  onToggleCollapse,
+  theme = 'light',
+  initialZoom = 1,
+  focusNodeId,
+  interactive = true,
+  onNodeClick,
+  onContentSize,
+  diff,
+  formatPreviousText,
 }: MindmapRendererProps) {
   const svgRef = useRef<SVGSVGElement>(null)
   const [scale, setScale] = useState(1)
   const [translate, setTranslate] = useState({ x: 50, y: 50 })
   const [isDragging, setIsDragging] = useState(false)
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
+  const pressOrigin = useRef({ x: 0, y: 0 })
+  const hasDragged = useRef(false)
+  // Unique per renderer so several maps on one page keep their own marker
+  const arrowMarkerId = `arrow-${useId().replace(/:/g, '')}`
 
-  // Calculate layout
-  const layout = nodes ? calculateLayout(nodes) : null
+  // Calculate layout (memoized: text measurement is not free)
+  const layout = useMemo(
+    () => (nodes ? calculateLayout(nodes, { mode: layoutMode }) : null),
+    [nodes, layoutMode]
+  )
   const boundingBox = layout ? getBoundingBox(layout) : null
   const positions = layout ? flattenPositions(layout) : []
 
@@ -45,12 +116,19 @@ export default function MindmapRenderer({
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     if (e.button === 0) {
       setIsDragging(true)
+      pressOrigin.current = { x: e.clientX, y: e.clientY }
+      hasDragged.current = false
       setDragStart({ x: e.clientX - translate.x, y: e.clientY - translate.y })
     }
   }, [translate])
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     if (isDragging) {
+      const dx = e.clientX - pressOrigin.current.x
+      const dy = e.clientY - pressOrigin.current.y
+      if (Math.abs(dx) > DRAG_THRESHOLD || Math.abs(dy) > DRAG_THRESHOLD) {
+        hasDragged.current = true
+      }
       setTranslate({
         x: e.clientX - dragStart.x,
         y: e.clientY - dragStart.y,
@@ -65,24 +143,64 @@ export default function MindmapRenderer({
   // Add wheel event listener
   useEffect(() => {
     const svg = svgRef.current
-    if (svg) {
+    if (svg && interactive) {
       svg.addEventListener('wheel', handleWheel, { passive: false })
       return () => svg.removeEventListener('wheel', handleWheel)
     }
-  }, [handleWheel])
+  }, [handleWheel, interactive])
 
-  // Reset view
+  // Report clicks and toggle collapse, ignoring clicks that ended a pan
+  const canToggle = interactive && onToggleCollapse !== undefined
+  const handleNodeClick = (node: MindmapNode) => {
+    if (hasDragged.current) return
+    onNodeClick?.(node)
+    if (canToggle && node.children.length > 0) onToggleCollapse?.(node)
+  }
+
+  // Translation that puts a node in the middle of the viewport
+  const centerTranslate = (nodeId: string, atScale: number) => {
+    const target = positions.find((pos) => pos.node.id === nodeId)
+    const svgRect = svgRef.current?.getBoundingClientRect()
+    if (!target || !svgRect) return null
+    return {
+      x: svgRect.width / 2 - (target.x + target.width / 2) * atScale,
+      y: svgRect.height / 2 - (target.y + target.height / 2) * atScale,
+    }
+  }
+
+  // Reset view (top-left of the map at a fixed offset; balanced and radial
+  // layouts extend to the left of and above the root), or center the focus
+  // node
   const resetView = () => {
-    setScale(1)
-    setTranslate({ x: 50, y: 50 })
+    if (initialZoom === 'fit') {
+      fitToView()
+      return
+    }
+
+    setScale(initialZoom)
+    setTranslate(
+      (focusNodeId && centerTranslate(focusNodeId, initialZoom)) || {
+        x: 50 - (boundingBox?.minX ?? 0) * initialZoom,
+        y: 50 - (boundingBox?.minY ?? 0) * initialZoom,
+      }
+    )
   }
 
+  // Reset when a map first appears or the layout mode or view options change
+  // (read through a ref: edits must not move the view)
+  const resetViewRef = useRef(resetView)
+  resetViewRef.current = resetView
+  const hasLayout = layout !== null
+  useEffect(() => {
+    if (hasLayout) resetViewRef.current()
+  }, [hasLayout, layoutMode, initialZoom, focusNodeId])
+
   // Fit to view
   const fitToView = () => {
     if (boundingBox && svgRef.current) {
       const svg = svgRef.current
       const svgRect = svg.getBoundingClientRect()
-      const padding = 100
+      const padding = FIT_PADDING
 
       const scaleX = (svgRect.width - padding) / (boundingBox.width || 1)
       const scaleY = (svgRect.height - padding) / (boundingBox.height || 1)
@@ -96,9 +214,36 @@ export default function MindmapRenderer({
     }
   }
 
+  useImperativeHandle(ref, () => ({
+    fit: fitToView,
+    zoomTo: (next) => {
+      const svgRect = svgRef.current?.getBoundingClientRect()
+      const center = { x: (svgRect?.width ?? 0) / 2, y: (svgRect?.height ?? 0) / 2 }
+      setTranslate((prev) => ({
+        x: center.x - ((center.x - prev.x) * next) / scale,
+        y: center.y - ((center.y - prev.y) * next) / scale,
+      }))
+      setScale(next)
+    },
+    centerOn: (nodeId) => {
+      const next = centerTranslate(nodeId, scale)
+      if (next) setTranslate(next)
+    },
+  }))
+
+  // Report the content size whenever the visible map changes size (the
+  // callback is read through a ref: only size changes matter)
+  const onContentSizeRef = useRef(onContentSize)
+  onContentSizeRef.current = onContentSize
+  const contentWidth = boundingBox ? boundingBox.width + FIT_PADDING : 0
+  const contentHeight = boundingBox ? boundingBox.height + FIT_PADDING : 0
+  useEffect(() => {
+    if (contentWidth > 0) onContentSizeRef.current?.({ width: contentWidth, height: contentHeight })
+  }, [contentWidth, contentHeight])
+
   if (!nodes) {
     return (
-      <div className={`flex items-center justify-center h-full bg-gray-50 ${className}`}>
+      <div className={`flex items-center justify-center h-full ${BACKGROUNDS[theme]} ${className}`}>
         <p className="text-gray-500">No mindmap to display</p>
       </div>
     )
@@ -106,132 +251,63 @@ export default function MindmapRenderer({
 
   return (
     <div className={`relative h-full ${className}`}>
-      {/* Controls */}
-      <div className="absolute top-4 right-4 z-10 flex gap-2">
-        <button
-          onClick={() => setScale((s) => Math.min(s * 1.2, 3))}
-          className="px-3 py-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50 text-sm"
-        >
-          +
-        </button>
-        <button
-          onClick={() => setScale((s) => Math.max(s * 0.8, 0.1))}
-          className="px-3 py-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50 text-sm"
-        >
-          -
-        </button>
-        <button
-          onClick={fitToView}
-          className="px-3 py-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50 text-sm"
-        >
-          Fit
-        </button>
-        <button
-          onClick={resetView}
-          className="px-3 py-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50 text-sm"
-        >
-          Reset
-        </button>
-      </div>
+      {/* Controls (hidden when the view is fixed) */}
+      {interactive && (
+        <>
+          <div className="absolute top-4 right-4 z-10 flex gap-2">
+            <button
+              onClick={() => setScale((s) => Math.min(s * 1.2, 3))}
+              className="px-3 py-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50 text-sm"
+            >
+              +
+            </button>
+            <button
+              onClick={() => setScale((s) => Math.max(s * 0.8, 0.1))}
+              className="px-3 py-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50 text-sm"
+            >
+              -
+            </button>
+            <button
+              onClick={fitToView}
+              className="px-3 py-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50 text-sm"
+            >
+              Fit
+            </button>
+            <button
+              onClick={resetView}
+              className="px-3 py-1 bg-white border border-gray-300 rounded shadow-sm hover:bg-gray-50 text-sm"
+            >
+              Reset
+            </button>
+          </div>
 
-      {/* Scale indicator */}
-      <div className="absolute bottom-4 left-4 z-10 px-2 py-1 bg-white border border-gray-300 rounded text-xs text-gray-600">
-        {Math.round(scale * 100)}%
-      </div>
+          {/* Scale indicator */}
+          <div className="absolute bottom-4 left-4 z-10 px-2 py-1 bg-white border border-gray-300 rounded text-xs text-gray-600">
+            {Math.round(scale * 100)}%
+          </div>
+        </>
+      )}
 
       {/* SVG Canvas */}
       <svg
         ref={svgRef}
-        className="w-full h-full bg-gray-50 cursor-grab active:cursor-grabbing"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        className={`w-full h-full ${BACKGROUNDS[theme]} ${interactive ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        onMouseDown={interactive ? handleMouseDown : undefined}
+        onMouseMove={interactive ? handleMouseMove : undefined}
+        onMouseUp={interactive ? handleMouseUp : undefined}
+        onMouseLeave={interactive ? handleMouseUp : undefined}
       >
         <g transform={`translate(${translate.x}, ${translate.y}) scale(${scale})`}>
-          {/* Render connections first (behind nodes) */}
-          {positions.map((pos) =>
-            pos.children.map((childPos) => (
-              <Connection
-                key={`${pos.node.id}-${childPos.node.id}`}
-                parent={pos}
-                child={childPos}
-              />
-            ))
-          )}
-
-          {/* Render nodes */}
-          {positions.map((pos) => (
-            <Node key={pos.node.id} position={pos} />
-          ))}
+          <MindmapScene
+            positions={positions}
+            arrowMarkerId={arrowMarkerId}
+            theme={theme}
+            onNodeClick={canToggle || onNodeClick ? handleNodeClick : undefined}
+            diff={diff}
+            formatPreviousText={formatPreviousText}
+          />
         </g>
       </svg>
     </div>
   )
 }
-
-// Node component
-function Node({ position }: { position: NodePosition }) {
-  const { node, x, y, width, height } = position
-  const isRoot = x === 0
-
-  return (
-    <g>
-      {/* Node background */}
-      <rect
-        x={x}
-        y={y}
-        width={width}
-        height={height}
-        rx={6}
-        ry={6}
-        fill={isRoot ? '#3b82f6' : '#ffffff'}
-        stroke={isRoot ? '#2563eb' : '#d1d5db'}
-        strokeWidth={2}
-        className="drop-shadow-sm"
-      />
-
-      {/* Node text */}
-      <text
-        x={x + width / 2}
-        y={y + height / 2}
-        textAnchor="middle"
-        dominantBaseline="middle"
-        fill={isRoot ? '#ffffff' : '#374151'}
-        fontSize={12}
-        fontFamily="system-ui, sans-serif"
-        fontWeight={isRoot ? 600 : 400}
-      >
-        {node.text.length > 20 ? node.text.substring(0, 17) + '...' : node.text}
-      </text>
-    </g>
-  )
-}
-
-// Connection line component
-function Connection({
-  parent,
-  child,
-}: {
-  parent: NodePosition
-  child: NodePosition
-}) {
-  const startX = parent.x + parent.width
-  const startY = parent.y + parent.height / 2
-  const endX = child.x
-  const endY = child.y + child.height / 2
-
-  // Bezier curve control points
-  const midX = (startX + endX) / 2
-  const path = `M ${startX} ${startY} C ${midX} ${startY}, ${midX} ${endY}, ${endX} ${endY}`
-
-  return (
-    <path
-      d={path}
-      fill="none"
-      stroke="#9ca3af"
-      strokeWidth={2}
-      className="transition-colors"
-    />
-  )
-}
@@ -0,0 +1,257 @@
+/**
+ * Mindmap Scene Component
+ *
+ * Draws laid-out nodes, connections and arrow links as SVG elements.
+ * Shared by the interactive renderer and the image export, so it only uses
+ * presentation attributes and inline styles (no CSS classes are needed to
+ * display it).
+ */
+
+import type { MindmapNode } from '@/schemas'
+import { countNodes } from '@/lib/mindmap-parser'
+import type { NodeChange, NodeDiff } from '@/lib/tree-diff'
+import {
+  getConnectionPath,
+  getArrowLinks,
+  getArrowPath,
+  getBadgeAnchor,
+  getNodeShapePath,
+  NODE_FONT_FAMILY,
+  NODE_FONT_SIZE,
+  NODE_LINE_HEIGHT,
+  type NodePosition,
+} from '@/lib/mindmap-layout'
+
+export type SceneTheme = 'light' | 'dark'
+
+interface MindmapSceneProps {
+  positions: NodePosition[]
+  // ID of the arrowhead marker (unique per page)
+  arrowMarkerId: string
+  // Colors for light or dark backgrounds (default: light)
+  theme?: SceneTheme
+  // Called when a node is clicked (nodes with children get a pointer cursor)
+  onNodeClick?: (node: MindmapNode) => void
+  // Compare mode: changes by node ID (see `lib/tree-diff`)
+  diff?: Map<string, NodeDiff>
+  // Compare mode: tooltip line for the text of a renamed node before the
+  // change (default: the text alone)
+  formatPreviousText?: (text: string) => string
+}
+
+// Same shadow as Tailwind's drop-shadow-sm, inlined for standalone output
+const NODE_SHADOW = 'drop-shadow(0 1px 2px rgb(0 0 0 / 0.15))'
+
+// Colors of non-root nodes and connections (the root looks the same in both)
+const PALETTES: Record<SceneTheme, { fill: string; stroke: string; text: string; line: string }> = {
+  light: { fill: '#ffffff', stroke: '#d1d5db', text: '#374151', line: '#9ca3af' },
+  dark: { fill: '#1f2937', stroke: '#4b5563', text: '#e5e7eb', line: '#6b7280' },
+}
+
+// Compare mode: added nodes are green, removed ones ghosted, moved ones
+// outlined; renamed and reordered nodes get a colored border
+const DIFF_STYLES: Record<
+  NodeChange,
+  { fill?: string; stroke?: string; text?: string; outline?: string; dashed?: boolean; opacity?: number }
+> = {
+  added: { fill: '#dcfce7', stroke: '#16a34a', text: '#14532d' },
+  removed: { opacity: 0.35, dashed: true },
+  moved: { outline: '#8b5cf6' },
+  renamed: { stroke: '#f59e0b' },
+  reordered: { stroke: '#60a5fa', dashed: true },
+}
+
+export default function MindmapScene({
+  positions,
+  arrowMarkerId,
+  theme = 'light',
+  onNodeClick,
+  diff,
+  formatPreviousText = (text) => text,
+}: MindmapSceneProps) {
+  const arrows = getArrowLinks(positions)
+  const palette = PALETTES[theme]
+
+  return (
+    <>
+      {/* Render connections first (behind nodes) */}
+      {positions.map((pos) =>
+        pos.children.map((childPos) => (
+          <Connection
+            key={`${pos.node.id}-${childPos.node.id}`}
+            parent={pos}
+            child={childPos}
+            color={palette.line}
+            change={diff?.get(childPos.node.id)?.change}
+          />
+        ))
+      )}
+
+      {/* Arrow links (FreeMind arrowlinks) */}
+      {arrows.length > 0 && (
+        <defs>
+          <marker
+            id={arrowMarkerId}
+            viewBox="0 0 10 10"
+            refX={9}
+            refY={5}
+            markerWidth={8}
+            markerHeight={8}
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 Z" fill="#6366f1" />
+          </marker>
+        </defs>
+      )}
+      {arrows.map(({ from, to }) => (
+        <path
+          key={`${from.node.id}->${to.node.id}`}
+          d={getArrowPath(from, to)}
+          fill="none"
+          stroke="#6366f1"
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+          markerEnd={`url(#${arrowMarkerId})`}
+        />
+      ))}
+
+      {/* Render nodes */}
+      {positions.map((pos) => (
+        <Node
+          key={pos.node.id}
+          position={pos}
+          palette={palette}
+          onClick={onNodeClick}
+          diff={diff?.get(pos.node.id)}
+          formatPreviousText={formatPreviousText}
+        />
+      ))}
+    </>
+  )
+}
+
+// Node component
+function Node({
+  position,
+  palette,
+  onClick,
+  diff,
+  formatPreviousText,
+}: {
+  position: NodePosition
+  palette: (typeof PALETTES)[SceneTheme]
+  onClick?: (node: MindmapNode) => void
+  diff?: NodeDiff
+  formatPreviousText: (text: string) => string
+}) {
+  const { node, x, y, width, height, lines, depth } = position
+  const isRoot = depth === 0
+  const handleClick = onClick ? () => onClick(node) : undefined
+  const hiddenCount = node.collapsed ? countNodes(node) - 1 : 0
+  const badge = getBadgeAnchor(position)
+  const style = diff ? DIFF_STYLES[diff.change] : {}
+  const tooltip = [
+    diff?.previousText !== undefined && formatPreviousText(diff.previousText),
+    node.note,
+    node.link,
+    node.labels?.join(', '),
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+
+  return (
+    <g
+      onClick={handleClick}
+      style={handleClick && node.children.length > 0 ? { cursor: 'pointer' } : undefined}
+      opacity={style.opacity}
+    >
+      {/* Note, link and labels shown as a tooltip */}
+      {tooltip && <title>{tooltip}</title>}
+
+      {/* Outline around moved nodes (compare mode) */}
+      {style.outline && (
+        <path d={getNodeShapePath(position)} fill="none" stroke={style.outline} strokeWidth={8} />
+      )}
+
+      {/* Node background */}
+      <path
+        d={getNodeShapePath(position)}
+        fill={style.fill ?? (isRoot ? '#3b82f6' : palette.fill)}
+        stroke={style.stroke ?? (isRoot ? '#2563eb' : palette.stroke)}
+        strokeWidth={2}
+        strokeDasharray={style.dashed ? '5 3' : undefined}
+        style={{ filter: NODE_SHADOW }}
+      />
+
+      {/* Node text (one tspan per wrapped line, centered vertically) */}
+      <text
+        x={x + width / 2}
+        y={y + height / 2 - ((lines.length - 1) * NODE_LINE_HEIGHT) / 2}
+        textAnchor="middle"
+        dominantBaseline="middle"
+        fill={node.color ?? style.text ?? (isRoot ? '#ffffff' : palette.text)}
+        fontSize={NODE_FONT_SIZE}
+        fontFamily={NODE_FONT_FAMILY}
+        fontWeight={isRoot ? 600 : 400}
+      >
+        {lines.map((line, index) => (
+          <tspan key={index} x={x + width / 2} dy={index === 0 ? 0 : NODE_LINE_HEIGHT}>
+            {line}
+          </tspan>
+        ))}
+      </text>
+
+      {/* Hidden descendants badge */}
+      {hiddenCount > 0 && (
+        <g>
+          <circle
+            cx={badge.x}
+            cy={badge.y}
+            r={10}
+            fill="#f59e0b"
+            stroke="#ffffff"
+            strokeWidth={2}
+          />
+          <text
+            x={badge.x}
+            y={badge.y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fill="#ffffff"
+            fontSize={9}
+            fontFamily={NODE_FONT_FAMILY}
+            fontWeight={600}
+          >
+            {hiddenCount > 99 ? '99+' : `+${hiddenCount}`}
+          </text>
+        </g>
+      )}
+    </g>
+  )
+}
+
+// Connection line component (styled like its child node in compare mode)
+function Connection({
+  parent,
+  child,
+  color,
+  change,
+}: {
+  parent: NodePosition
+  child: NodePosition
+  color: string
+  change?: NodeChange
+}) {
+  const path = getConnectionPath(parent, child)
+
+  return (
+    <path
+      d={path}
+      fill="none"
+      stroke={change === 'added' ? DIFF_STYLES.added.stroke : color}
+      strokeWidth={2}
+      strokeDasharray={change === 'removed' ? '5 3' : undefined}
+      opacity={change === 'removed' ? DIFF_STYLES.removed.opacity : undefined}
+    />
+  )
+}
@@ -0,0 +1,175 @@
+/**
+ * VersionHistory Component
+ *
+ * Side panel listing the saved versions of a mindmap, newest first, with
+ * their node count changes. A selected version is previewed and can be
+ * restored, forked into a new document or compared with the current map;
+ * the form on top saves the current map as a named checkpoint.
+ */
+
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Bookmark, GitBranch, GitCompare, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import MindmapRenderer from '@/components/MindmapRenderer'
+import { cn } from '@/lib/utils'
+import { parseDocument } from '@/lib/formats'
+import { isSameVersion, listVersions } from '@/lib/versions'
+import type { MindmapVersionEntity } from '@/db'
+import type { DocumentSnapshot } from '@/stores'
+import type { MindmapNode } from '@/schemas'
+
+interface VersionHistoryProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  versions: MindmapVersionEntity[]
+  // Current state of the document, to mark the version it matches
+  current: DocumentSnapshot | null
+  onCheckpoint: (name: string) => void
+  onRestore: (version: MindmapVersionEntity) => void
+  onFork: (version: MindmapVersionEntity) => void
+  onCompare: (version: MindmapVersionEntity) => void
+}
+
+export default function VersionHistory({
+  open,
+  onOpenChange,
+  versions,
+  current,
+  onCheckpoint,
+  onRestore,
+  onFork,
+  onCompare,
+}: VersionHistoryProps) {
+  const { t } = useTranslation()
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [checkpointName, setCheckpointName] = useState('')
+
+  const items = useMemo(() => listVersions(versions), [versions])
+  const selected = items.find((item) => item.version.id === selectedId)?.version
+
+  const preview = useMemo((): MindmapNode | null => {
+    if (!selected) return null
+    try {
+      return parseDocument(selected.content, selected.format ?? 'outline').tree
+    } catch {
+      return null
+    }
+  }, [selected])
+
+  const handleCheckpoint = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!checkpointName.trim()) return
+    onCheckpoint(checkpointName.trim())
+    setCheckpointName('')
+  }
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next)
+        if (!next) setSelectedId(null)
+      }}
+    >
+      <SheetContent side="right" className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{t('pages.mindmap.history.title')}</SheetTitle>
+          <SheetDescription>{t('pages.mindmap.history.description')}</SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleCheckpoint} className="flex gap-2">
+          <Input
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            placeholder={t('pages.mindmap.history.checkpointPlaceholder')}
+            aria-label={t('pages.mindmap.history.checkpointName')}
+            className="h-8"
+          />
+          <Button type="submit" size="sm" disabled={!checkpointName.trim()}>
+            <Bookmark className="w-4 h-4 mr-1" />
+            {t('pages.mindmap.history.checkpoint')}
+          </Button>
+        </form>
+
+        {selected && (
+          <div className="space-y-2">
+            <MindmapRenderer
+              nodes={preview}
+              layout={selected.layout}
+              className="h-56 border rounded"
+              initialZoom="fit"
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => onRestore(selected)}>
+                <RotateCcw className="w-4 h-4 mr-1" />
+                {t('pages.mindmap.history.restore')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onFork(selected)}>
+                <GitBranch className="w-4 h-4 mr-1" />
+                {t('pages.mindmap.history.fork')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onCompare(selected)}>
+                <GitCompare className="w-4 h-4 mr-1" />
+                {t('pages.mindmap.history.compare')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {items.length === 0 ? (
+            <p className="text-gray-500 text-center text-sm py-4">
+              {t('pages.mindmap.history.empty')}
+            </p>
+          ) : (
+            items.map(({ version, delta }) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id === selectedId ? null : version.id!)}
+                className={cn(
+                  'w-full text-left p-3 border rounded hover:bg-gray-50',
+                  version.id === selectedId && 'border-blue-500 bg-blue-50 hover:bg-blue-50'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={cn('truncate', version.name && 'font-medium')}>
+                    {version.name ?? t('pages.mindmap.history.autosave')}
+                  </span>
+                  {current && isSameVersion(version, current) && (
+                    <Badge variant="secondary">{t('pages.mindmap.history.current')}</Badge>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500 whitespace-nowrap">
+                    {t('pages.mindmap.history.nodes', { count: version.node_count })}
+                    {delta !== undefined && (
+                      <span
+                        className={cn(
+                          'ml-1',
+                          delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-400'
+                        )}
+                      >
+                        ({delta > 0 ? `+${delta}` : delta === 0 ? '±0' : delta})
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(version.created_at).toLocaleString()}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,99 @@
+/**
+ * <mind-map> Element Tests
+ *
+ * Tests for the custom element: reading inline text or `src`, and
+ * re-rendering when attributes or content change.
+ */
+
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { act } from 'react'
+import { waitFor } from '@testing-library/react'
+import { dedent, defineMindMapElement } from '@/components/MindMapElement'
+
+beforeAll(() => defineMindMapElement())
+
+afterEach(async () => {
+  await act(async () => document.body.replaceChildren())
+  vi.unstubAllGlobals()
+})
+
+async function mount(html: string): Promise<HTMLElement> {
+  await act(async () => {
+    document.body.innerHTML = html
+  })
+  return document.querySelector('mind-map')!
+}
+
+function nodeTexts(element: HTMLElement): string[] {
+  return Array.from(element.shadowRoot!.querySelectorAll('tspan'), (tspan) => tspan.textContent ?? '')
+}
+
+describe('<mind-map>', () => {
+  it('should render indented inline text in a shadow root', async () => {
+    const element = await mount(`
+      <mind-map>
+        Root
+          Child
+            Grandchild
+      </mind-map>`)
+    await waitFor(() => expect(nodeTexts(element)).toEqual(['Root', 'Child', 'Grandchild']))
+    expect(element.shadowRoot!.querySelector('style')).not.toBeNull()
+    expect(element.querySelector('svg')).toBeNull()
+  })
+
+  it('should detect Mermaid text', async () => {
+    const element = await mount('<mind-map>mindmap\n  root((Plan))\n    Build</mind-map>')
+    await waitFor(() => expect(nodeTexts(element)).toEqual(['Plan', 'Build']))
+  })
+
+  it('should follow attribute changes', async () => {
+    const element = await mount('<mind-map theme="dark" interactive="false">Root\n  Child</mind-map>')
+    await waitFor(() => expect(element.shadowRoot!.querySelector('svg')).not.toBeNull())
+    const svg = () => element.shadowRoot!.querySelector('svg')!
+    expect(svg().getAttribute('class')).toContain('bg-gray-900')
+    expect(element.shadowRoot!.querySelector('button')).toBeNull()
+
+    await act(async () => {
+      element.setAttribute('theme', 'light')
+      element.removeAttribute('interactive')
+    })
+    expect(svg().getAttribute('class')).toContain('bg-gray-50')
+    expect(element.shadowRoot!.querySelector('button')).not.toBeNull()
+  })
+
+  it('should follow text changes', async () => {
+    const element = await mount('<mind-map>Root</mind-map>')
+    await waitFor(() => expect(nodeTexts(element)).toEqual(['Root']))
+
+    await act(async () => {
+      element.textContent = 'Renamed\n  Child'
+    })
+    await waitFor(() => expect(nodeTexts(element)).toEqual(['Renamed', 'Child']))
+  })
+
+  it('should load src and take the format from the file name', async () => {
+    const fetchMock = vi.fn(async (_input: RequestInfo | URL) => new Response('# Roadmap\n\n## Q1\n\n## Q2'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const element = await mount('<mind-map src="/maps/roadmap.md">ignored</mind-map>')
+    await waitFor(() => expect(nodeTexts(element)).toEqual(['Roadmap', 'Q1', 'Q2']))
+    expect(String(fetchMock.mock.calls[0][0])).toMatch(/\/maps\/roadmap\.md$/)
+  })
+
+  it('should show load errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })))
+
+    const element = await mount('<mind-map src="/missing.txt"></mind-map>')
+    await waitFor(() =>
+      expect(element.shadowRoot!.textContent).toContain('Failed to load /missing.txt: HTTP 404')
+    )
+  })
+})
+
+describe('dedent', () => {
+  it('should remove shared indentation and surrounding blank lines', () => {
+    expect(dedent('\n\n    Root\n      Child\n\n      Other\n  ')).toBe('Root\n  Child\n\n  Other')
+    expect(dedent('Root\n  Child')).toBe('Root\n  Child')
+    expect(dedent('  \n ')).toBe('')
+  })
+})
@@ -6,6 +6,8 @@
  */
 
 import Dexie, { type EntityTable } from 'dexie'
+import type { DocumentFormat, LayoutMode } from '@/schemas'
+import { getPrunableVersions, isAutoVersionDue, isSameVersion, listVersions } from '@/lib/versions'
 
 // =============================================================================
 // Database Entity Types (stored in IndexedDB)
@@ -34,10 +36,40 @@ export interface MindmapEntity {
   id?: number
   title: string
   content: string
+  format?: DocumentFormat
+  layout?: LayoutMode
   created_at: string
   updated_at: string
 }
 
+// Unsaved edits kept for crash recovery, one per document ('new' for a
+// document that was never saved)
+export interface DraftEntity {
+  key: string
+  document_id?: number
+  title: string
+  content: string
+  format?: DocumentFormat
+  layout?: LayoutMode
+  created_at: string
+  // Time of the last edit (the document's updated_at)
+  updated_at: string
+}
+
+// Snapshot of a mindmap taken when it was saved; named versions are
+// checkpoints created by the user
+export interface MindmapVersionEntity {
+  id?: number
+  mindmap_id: number
+  title: string
+  content: string
+  format?: DocumentFormat
+  layout?: LayoutMode
+  node_count: number
+  name?: string
+  created_at: string
+}
+
 // =============================================================================
 // Database Class
 // =============================================================================
@@ -46,6 +78,8 @@ export class AppDatabase extends Dexie {
   items!: EntityTable<ItemEntity, 'id'>
   users!: EntityTable<UserEntity, 'id'>
   mindmaps!: EntityTable<MindmapEntity, 'id'>
+  drafts!: EntityTable<DraftEntity, 'key'>
+  mindmap_versions!: EntityTable<MindmapVersionEntity, 'id'>
 
   constructor() {
     super('MermaidChartCloneDB')
@@ -60,6 +94,21 @@ export class AppDatabase extends Dexie {
       users: '++id, email, username, created_at',
       mindmaps: '++id, title, created_at, updated_at',
     })
+
+    this.version(3).stores({
+      items: '++id, name, category, created_at',
+      users: '++id, email, username, created_at',
+      mindmaps: '++id, title, created_at, updated_at',
+      drafts: 'key, document_id, updated_at',
+    })
+
+    this.version(4).stores({
+      items: '++id, name, category, created_at',
+      users: '++id, email, username, created_at',
+      mindmaps: '++id, title, created_at, updated_at',
+      drafts: 'key, document_id, updated_at',
+      mindmap_versions: '++id, mindmap_id, created_at',
+    })
   }
 }
 
@@ -194,6 +243,45 @@ export async function initializeDatabase(): Promise<void> {
   }
 }
 
+// =============================================================================
+// Version History
+// =============================================================================
+
+/**
+ * Record a version of a mindmap and prune old automatic versions
+ *
+ * Saving without changes records nothing, and naming an unchanged map
+ * turns its latest version into a checkpoint. Automatic versions (autosave)
+ * are only recorded once the latest version is old enough. Returns the ID
+ * of the map's latest version.
+ */
+export async function recordMindmapVersion(
+  version: Omit<MindmapVersionEntity, 'id'>,
+  { auto = false }: { auto?: boolean } = {}
+): Promise<number> {
+  return db.transaction('rw', db.mindmap_versions, async () => {
+    const versions = await db.mindmap_versions.where('mindmap_id').equals(version.mindmap_id).toArray()
+    const latest = listVersions(versions)[0]?.version
+
+    if (latest && isSameVersion(latest, version) && (!version.name || !latest.name)) {
+      if (version.name) await db.mindmap_versions.update(latest.id!, { name: version.name })
+      return latest.id!
+    }
+    if (auto && !isAutoVersionDue(latest, version.created_at)) return latest!.id!
+
+    const id = (await db.mindmap_versions.add(version)) as number
+    await db.mindmap_versions.bulkDelete(getPrunableVersions([...versions, { ...version, id }]))
+    return id
+  })
+}
+
+/**
+ * Delete all versions of a mindmap
+ */
+export async function deleteMindmapVersions(mindmapId: number): Promise<void> {
+  await db.mindmap_versions.where('mindmap_id').equals(mindmapId).delete()
+}
+
 /**
  * Clear all data from the database
  */
@@ -201,6 +289,8 @@ export async function clearDatabase(): Promise<void> {
   await db.items.clear()
   await db.users.clear()
   await db.mindmaps.clear()
+  await db.drafts.clear()
+  await db.mindmap_versions.clear()
   console.log('[IndexedDB] Database cleared')
 }
 
@@ -0,0 +1,91 @@
+/**
+ * Draft Tests
+ *
+ * Tests for deciding which crash-recovery drafts are worth offering.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  draftToDocument,
+  getDraftKey,
+  isDraftNewer,
+  sortDrafts,
+  toDraft,
+} from '@/lib/drafts'
+import type { DraftEntity, MindmapEntity } from '@/db'
+
+const stored: MindmapEntity = {
+  id: 7,
+  title: 'Plan',
+  content: 'Root',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+}
+
+function draft(overrides: Partial<DraftEntity>): DraftEntity {
+  return {
+    key: 'mindmap:7',
+    document_id: 7,
+    title: 'Plan',
+    content: 'Root\n  Child',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-03T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('getDraftKey / toDraft', () => {
+  it('should key drafts by document ID', () => {
+    expect(getDraftKey({ id: 7 })).toBe('mindmap:7')
+    expect(getDraftKey({})).toBe('new')
+    expect(toDraft({ ...stored, format: 'markdown' })).toEqual({
+      key: 'mindmap:7',
+      document_id: 7,
+      title: 'Plan',
+      content: 'Root',
+      format: 'markdown',
+      layout: undefined,
+      created_at: stored.created_at,
+      updated_at: stored.updated_at,
+    })
+  })
+})
+
+describe('isDraftNewer', () => {
+  it('should compare edit times across timestamp formats', () => {
+    expect(isDraftNewer(draft({}), stored)).toBe(true)
+    expect(isDraftNewer(draft({ updated_at: '2024-01-02T00:00:00.000Z' }), stored)).toBe(false)
+    expect(isDraftNewer(draft({ updated_at: '2024-01-01T12:00:00.000Z' }), stored)).toBe(false)
+  })
+
+  it('should keep drafts of new and deleted documents', () => {
+    expect(isDraftNewer(draft({ key: 'new', document_id: undefined }))).toBe(true)
+    expect(isDraftNewer(draft({}), undefined)).toBe(true)
+  })
+})
+
+describe('sortDrafts', () => {
+  it('should split recoverable and stale drafts, newest first', () => {
+    const old = draft({ updated_at: '2024-01-01T00:00:00.000Z' })
+    const fresh = draft({ key: 'new', document_id: undefined, updated_at: '2024-01-05T00:00:00.000Z' })
+    const edited = draft({})
+
+    const { recoverable, stale } = sortDrafts([old, edited, fresh], [stored])
+    expect(recoverable.map((item) => item.draft)).toEqual([fresh, edited])
+    expect(recoverable[1].stored).toBe(stored)
+    expect(stale).toEqual([old])
+  })
+})
+
+describe('draftToDocument', () => {
+  it('should restore the draft onto its document', () => {
+    expect(draftToDocument({ draft: draft({}), stored })).toMatchObject({
+      id: 7,
+      content: 'Root\n  Child',
+    })
+  })
+
+  it('should restore drafts of deleted documents as new documents', () => {
+    expect(draftToDocument({ draft: draft({}) }).id).toBeUndefined()
+  })
+})
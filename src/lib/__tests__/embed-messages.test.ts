@@ -0,0 +1,85 @@
+/**
+ * Embed Message Tests
+ *
+ * Tests for the origin checks and validation of the embed postMessage API.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  EMBED_MESSAGE_SOURCE,
+  getHostOrigin,
+  postEmbedEvent,
+  readEmbedCommand,
+} from '@/lib/embed-messages'
+
+const host = 'https://portal.example.com'
+
+function message(data: unknown, origin: string = host) {
+  return { data, origin }
+}
+
+describe('getHostOrigin', () => {
+  const app = 'https://maps.example.com'
+
+  it('should use the origin parameter', () => {
+    expect(getHostOrigin(host, { localContent: false, appOrigin: app })).toBe(host)
+  })
+
+  it('should be off without the origin parameter', () => {
+    expect(getHostOrigin(undefined, { localContent: false, appOrigin: app })).toBeNull()
+  })
+
+  it('should only offer maps loaded by ID to the app itself', () => {
+    expect(getHostOrigin(host, { localContent: true, appOrigin: app })).toBeNull()
+    expect(getHostOrigin(app, { localContent: true, appOrigin: app })).toBe(app)
+  })
+})
+
+describe('readEmbedCommand', () => {
+  it('should accept valid commands from the host origin', () => {
+    expect(
+      readEmbedCommand(message({ source: EMBED_MESSAGE_SOURCE, type: 'focus', node: 'Goals' }), host)
+    ).toEqual({ command: { type: 'focus', node: 'Goals' } })
+    expect(
+      readEmbedCommand(
+        message({ source: EMBED_MESSAGE_SOURCE, type: 'setContent', content: '# Root', format: 'markdown' }),
+        host
+      )
+    ).toEqual({ command: { type: 'setContent', content: '# Root', format: 'markdown' } })
+  })
+
+  it('should ignore messages from other origins', () => {
+    const data = { source: EMBED_MESSAGE_SOURCE, type: 'fit' }
+    expect(readEmbedCommand(message(data, 'https://evil.example.com'), host)).toBeNull()
+    expect(readEmbedCommand(message(data), null)).toBeNull()
+  })
+
+  it('should ignore messages that are not for the embed', () => {
+    expect(readEmbedCommand(message('fit'), host)).toBeNull()
+    expect(readEmbedCommand(message(null), host)).toBeNull()
+    expect(readEmbedCommand(message({ type: 'fit' }), host)).toBeNull()
+  })
+
+  it('should report invalid commands', () => {
+    for (const data of [
+      { type: 'explode' },
+      { type: 'zoom', scale: 10 },
+      { type: 'setTheme', theme: 'blue' },
+      { type: 'focus' },
+    ]) {
+      const result = readEmbedCommand(message({ source: EMBED_MESSAGE_SOURCE, ...data }), host)
+      expect(result).toHaveProperty('error')
+    }
+  })
+})
+
+describe('postEmbedEvent', () => {
+  it('should tag events and target the host origin', () => {
+    const target = { postMessage: vi.fn() }
+    postEmbedEvent(target, host, { type: 'contentSize', width: 640, height: 480 })
+    expect(target.postMessage).toHaveBeenCalledWith(
+      { source: EMBED_MESSAGE_SOURCE, type: 'contentSize', width: 640, height: 480 },
+      host
+    )
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Embed Options Tests
+ *
+ * Tests for reading viewer options from the embed URL, building embed
+ * snippets and applying depth and focus to a tree.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applyEmbedView,
+  buildEmbedUrl,
+  buildIframeSnippet,
+  findFocusNode,
+  parseEmbedOptions,
+  setEmbedFolding,
+  toOrigin,
+} from '@/lib/embed'
+import { parseTextToTree } from '@/lib/mindmap-parser'
+import type { MindmapNode } from '@/schemas'
+
+const tree = parseTextToTree('Root\n  A\n    A1\n      A1a\n  B\n    B1')
+
+function visibleTexts(node: MindmapNode): string[] {
+  return [node.text, ...(node.collapsed ? [] : node.children.flatMap(visibleTexts))]
+}
+
+describe('parseEmbedOptions', () => {
+  it('should read string params', () => {
+    expect(
+      parseEmbedOptions({
+        theme: 'dark',
+        layout: 'radial',
+        zoom: '1.5',
+        title: 'false',
+        footer: '0',
+        interactive: 'false',
+        focus: 'A1',
+        depth: '2',
+      })
+    ).toEqual({
+      theme: 'dark',
+      layout: 'radial',
+      zoom: 1.5,
+      title: false,
+      footer: false,
+      interactive: false,
+      focus: 'A1',
+      depth: 2,
+    })
+  })
+
+  it('should read params the router already parsed', () => {
+    expect(parseEmbedOptions({ zoom: 2, title: true, depth: 1, focus: 42 })).toEqual({
+      zoom: 2,
+      title: true,
+      depth: 1,
+      focus: '42',
+    })
+  })
+
+  it('should accept fit and clamp numeric zoom', () => {
+    expect(parseEmbedOptions({ zoom: 'fit' }).zoom).toBe('fit')
+    expect(parseEmbedOptions({ zoom: '10' }).zoom).toBe(3)
+    expect(parseEmbedOptions({ zoom: '0.01' }).zoom).toBe(0.1)
+  })
+
+  it('should ignore invalid values', () => {
+    expect(
+      parseEmbedOptions({
+        theme: 'blue',
+        layout: 'spiral',
+        zoom: 'big',
+        title: 'maybe',
+        focus: '',
+        depth: '-1',
+      })
+    ).toEqual({})
+    expect(parseEmbedOptions({ zoom: '', depth: '1.5' })).toEqual({})
+  })
+
+  it('should reduce the host origin to scheme, host and port', () => {
+    expect(parseEmbedOptions({ origin: 'https://docs.example.com/guide/' })).toEqual({
+      origin: 'https://docs.example.com',
+    })
+    expect(parseEmbedOptions({ origin: 'docs' })).toEqual({})
+  })
+})
+
+describe('buildEmbedUrl', () => {
+  const base = 'https://maps.example.com/embed#m=abc'
+
+  it('should leave out defaults and keep the fragment', () => {
+    expect(buildEmbedUrl(base, { theme: 'light', zoom: 1, title: true, focus: '' })).toBe(base)
+  })
+
+  it('should add non-default options before the fragment', () => {
+    const url = new URL(
+      buildEmbedUrl(base, { theme: 'dark', zoom: 'fit', footer: false, interactive: false, depth: 0 })
+    )
+    expect(url.hash).toBe('#m=abc')
+    expect(parseEmbedOptions(Object.fromEntries(url.searchParams))).toEqual({
+      theme: 'dark',
+      zoom: 'fit',
+      footer: false,
+      interactive: false,
+      depth: 0,
+    })
+  })
+
+  it('should add the host origin only if it is valid', () => {
+    const url = new URL(buildEmbedUrl(base, { origin: 'https://docs.example.com/guide/' }))
+    expect(url.searchParams.get('origin')).toBe('https://docs.example.com')
+    expect(buildEmbedUrl(base, { origin: 'docs' })).toBe(base)
+  })
+
+  it('should keep existing params', () => {
+    expect(buildEmbedUrl('https://maps.example.com/embed?id=7', { theme: 'dark' })).toBe(
+      'https://maps.example.com/embed?id=7&theme=dark'
+    )
+  })
+})
+
+describe('buildIframeSnippet', () => {
+  it('should escape the URL and set the height', () => {
+    const snippet = buildIframeSnippet('https://example.com/embed?a=1&b="2"', 250)
+    expect(snippet).toContain('src="https://example.com/embed?a=1&amp;b=&quot;2&quot;"')
+    expect(snippet).toContain('height="250"')
+  })
+})
+
+describe('findFocusNode', () => {
+  it('should find a node by ID or by text', () => {
+    const b1 = tree.children[1].children[0]
+    expect(findFocusNode(tree, b1.id)).toBe(b1)
+    expect(findFocusNode(tree, 'A1')).toBe(tree.children[0].children[0])
+    expect(findFocusNode(tree, 'missing')).toBeNull()
+  })
+})
+
+describe('applyEmbedView', () => {
+  it('should fold nodes below the depth limit', () => {
+    expect(visibleTexts(applyEmbedView(tree, { depth: 1 }))).toEqual(['Root', 'A', 'B'])
+    expect(visibleTexts(applyEmbedView(tree, { depth: 0 }))).toEqual(['Root'])
+  })
+
+  it('should unfold the ancestors of the focused node', () => {
+    expect(visibleTexts(applyEmbedView(tree, { depth: 1, focus: 'A1a' }))).toEqual([
+      'Root',
+      'A',
+      'A1',
+      'A1a',
+      'B',
+    ])
+  })
+
+  it('should keep folds when no option applies', () => {
+    const folded = { ...tree, children: [{ ...tree.children[0], collapsed: true }, tree.children[1]] }
+    expect(visibleTexts(applyEmbedView(folded, {}))).toEqual(['Root', 'A', 'B', 'B1'])
+  })
+})
+
+describe('setEmbedFolding', () => {
+  it('should fold and unfold everything', () => {
+    const folded = setEmbedFolding(tree, true)
+    expect(visibleTexts(folded)).toEqual(['Root', 'A', 'B'])
+    expect(visibleTexts(setEmbedFolding(folded, false))).toEqual(visibleTexts(tree))
+  })
+
+  it('should unfold a node and its ancestors', () => {
+    const a1 = tree.children[0].children[0]
+    const folded = setEmbedFolding(tree, true)
+    expect(visibleTexts(setEmbedFolding(folded, false, a1.id))).toEqual([
+      'Root',
+      'A',
+      'A1',
+      'A1a',
+      'B',
+    ])
+  })
+
+  it('should fold a single node', () => {
+    expect(visibleTexts(setEmbedFolding(tree, true, tree.children[0].id))).toEqual([
+      'Root',
+      'A',
+      'B',
+      'B1',
+    ])
+  })
+})
+
+describe('toOrigin', () => {
+  it('should return the origin of a URL', () => {
+    expect(toOrigin('http://localhost:3000/embed?id=1')).toBe('http://localhost:3000')
+    expect(toOrigin('data:text/html,hi')).toBeNull()
+    expect(toOrigin('')).toBeNull()
+  })
+})
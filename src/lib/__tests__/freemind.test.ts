@@ -0,0 +1,96 @@
+/**
+ * FreeMind Format Tests
+ *
+ * Tests for reading and writing FreeMind / Freeplane maps.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { isFreeMind, parseFreeMind, treeToFreeMind } from '@/lib/formats/freemind'
+import { importFile } from '@/lib/formats'
+import { parseTextToTree, treeToText } from '@/lib/mindmap-parser'
+
+const sample = `<map version="1.0.1">
+<node ID="ID_1" TEXT="Root">
+<node ID="ID_2" TEXT="Folded" FOLDED="true" COLOR="#990000">
+<arrowlink DESTINATION="ID_4" ENDARROW="Default"/>
+<node ID="ID_3" TEXT="Hidden"/>
+</node>
+<node ID="ID_4" LINK="https://example.com/?a=1&amp;b=2">
+<richcontent TYPE="NODE"><html><head></head><body><p>Rich <b>title</b></p></body></html></richcontent>
+<richcontent TYPE="NOTE"><html>
+  <head></head>
+  <body>
+    <p>First   paragraph</p>
+    <p>Second<br/>line</p>
+  </body>
+</html></richcontent>
+</node>
+</node>
+</map>`
+
+describe('parseFreeMind', () => {
+  it('should read node text, including rich node content', () => {
+    const tree = parseFreeMind(sample)
+
+    expect(tree.text).toBe('Root')
+    expect(tree.children.map((c) => c.text)).toEqual(['Folded', 'Rich title'])
+  })
+
+  it('should map folding, color, link and notes', () => {
+    const [folded, rich] = parseFreeMind(sample).children
+
+    expect(folded).toMatchObject({ collapsed: true, color: '#990000' })
+    expect(rich.link).toBe('https://example.com/?a=1&b=2')
+    expect(rich.note).toBe('First paragraph\nSecond\nline')
+  })
+
+  it('should turn arrow links into arrows to the destination text', () => {
+    const [folded] = parseFreeMind(sample).children
+    expect(folded.arrows).toEqual(['Rich title'])
+  })
+
+  it('should give nodes the IDs of the equivalent outline text', () => {
+    const tree = parseFreeMind(sample)
+    expect(tree).toEqual(parseTextToTree(treeToText(tree)))
+  })
+
+  it('should reject files that are not maps', () => {
+    expect(() => parseFreeMind('<opml version="2.0"/>')).toThrow()
+    expect(() => parseFreeMind('<map version="1.0.1"></map>')).toThrow()
+  })
+})
+
+describe('treeToFreeMind', () => {
+  it('should round-trip every mapped attribute', () => {
+    const tree = parseFreeMind(sample)
+    const again = parseFreeMind(treeToFreeMind(tree))
+
+    expect(again).toEqual(tree)
+  })
+
+  it('should escape text and drop arrows to missing nodes', () => {
+    const tree = parseTextToTree('Root\n  <A & "B">\n    @arrow Nowhere')
+    const mm = treeToFreeMind(tree)
+
+    expect(isFreeMind(mm)).toBe(true)
+    expect(mm).toContain('TEXT="&lt;A &amp; &quot;B&quot;&gt;"')
+    expect(mm).not.toContain('arrowlink')
+  })
+})
+
+describe('importFile', () => {
+  it('should keep titles that look like outline syntax', () => {
+    const map = '<map><node TEXT="Root"><node TEXT="@color me"/><node TEXT="@link docs"/></node></map>'
+    const tree = parseTextToTree(importFile('syntax.mm', map).content)
+
+    expect(tree.color).toBeUndefined()
+    expect(tree.children.map((c) => c.text)).toEqual(['@color me', '@link docs'])
+  })
+
+  it('should convert FreeMind maps to outline documents', () => {
+    const imported = importFile('map.mm', sample)
+
+    expect(imported).toMatchObject({ title: 'Root', format: 'outline' })
+    expect(imported.content).toContain('  Folded [+]\n    @color #990000\n    @arrow Rich title')
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * HTML Export Tests
+ *
+ * Tests for the standalone HTML page and its embedded viewer.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { parseTextToTree } from '@/lib/mindmap-parser'
+import { renderMindmapHtml, type HtmlExportOptions } from '@/lib/html-export'
+
+const content = 'Plans\n  Work [+]\n    Report\n  Home </script>\n    Garden'
+const labels = { search: 'Search', fit: 'Fit', source: 'Source' }
+
+const exportHtml = (options: Partial<HtmlExportOptions> = {}) =>
+  renderMindmapHtml(parseTextToTree(options.content ?? content), {
+    title: 'Plans & more',
+    content,
+    format: 'outline',
+    labels,
+    ...options,
+  })
+
+// Run the exported page's scripts in the test document
+const openPage = (html: string) => {
+  const page = new DOMParser().parseFromString(html, 'text/html')
+  const [data, viewer] = Array.from(page.querySelectorAll('script'))
+  document.body.appendChild(data.cloneNode(true))
+  new Function(viewer.textContent ?? '')()
+}
+
+// Node labels (badge counts are drawn one group deeper)
+const nodeTexts = () =>
+  Array.from(document.querySelectorAll('svg > g > g > text')).map((t) => t.textContent)
+
+describe('renderMindmapHtml', () => {
+  afterEach(() => {
+    document.body.replaceChildren()
+  })
+
+  it('should embed the document without ending the script early', () => {
+    const page = new DOMParser().parseFromString(exportHtml(), 'text/html')
+    const data = JSON.parse(page.getElementById('mindmap-data')!.textContent!)
+
+    expect(page.title).toBe('Plans & more')
+    expect(data.content).toBe(content)
+    expect(data.format).toBe('outline')
+    expect(data.tree.children[1].text).toBe('Home </script>')
+  })
+
+  it('should not load anything from outside the file', () => {
+    expect(exportHtml()).not.toMatch(/\s(src|href)=/)
+  })
+
+  it('should draw the visible nodes', () => {
+    openPage(exportHtml())
+
+    expect(nodeTexts()).toEqual(['Plans', 'Work', 'Home </script>', 'Garden'])
+  })
+
+  it('should wrap long labels like the preview instead of cutting them', () => {
+    const text = 'A label that is far too long to fit on one line of a node'
+    openPage(exportHtml({ content: `Root\n  ${text}` }))
+
+    const label = Array.from(document.querySelectorAll('svg > g > g > text'))[1]
+    expect(label.querySelectorAll('tspan').length).toBeGreaterThan(1)
+    expect(label.textContent?.replace(/\s/g, '')).toBe(text.replace(/\s/g, ''))
+  })
+
+  it('should lay out the map in the document layout mode', () => {
+    openPage(exportHtml({ layout: 'orgchart' }))
+
+    const [root, work] = Array.from(document.querySelectorAll('svg > g > g > text'))
+    expect(Number(work.getAttribute('y'))).toBeGreaterThan(Number(root.getAttribute('y')))
+  })
+
+  it('should embed the node font', () => {
+    const html = exportHtml({ fontFaces: '@font-face{font-family:Inter}' })
+
+    expect(html).toContain('@font-face{font-family:Inter}')
+  })
+
+  it('should toggle a node when it is clicked', () => {
+    openPage(exportHtml())
+
+    const work = Array.from(document.querySelectorAll('svg g')).find(
+      (group) => group.querySelector('text')?.textContent === 'Work'
+    )!
+    work.dispatchEvent(new MouseEvent('click', { bubbles: true }))
+
+    expect(nodeTexts()).toContain('Report')
+  })
+
+  it('should unfold and highlight search matches', () => {
+    openPage(exportHtml())
+
+    const search = document.querySelector('input')!
+    search.value = 'report'
+    search.dispatchEvent(new Event('input'))
+
+    expect(nodeTexts()).toContain('Report')
+    expect(document.querySelectorAll('path[stroke="#f59e0b"]')).toHaveLength(1)
+    expect(document.querySelector('.toolbar span')?.textContent).toBe('1/1')
+  })
+})
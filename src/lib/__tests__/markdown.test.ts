@@ -0,0 +1,140 @@
+/**
+ * Markdown Format Tests
+ *
+ * Tests for reading and writing Markdown headings and lists.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseMarkdown,
+  parseMarkdownWithDiagnostics,
+  treeToMarkdown,
+} from '@/lib/formats/markdown'
+import { importFile } from '@/lib/formats'
+import { parseTextToTree } from '@/lib/mindmap-parser'
+
+const sample = `# Project
+
+## Goals
+- Ship **v1**
+  - See [the plan](https://example.com/plan)
+* Keep \`main\` green
+
+## Risks
+Budget is tight.
+
+Timeline too.
+1. Hiring
+2. Scope
+   - Creep`
+
+describe('parseMarkdownWithDiagnostics', () => {
+  it('should nest headings and list items', () => {
+    const { tree, diagnostics } = parseMarkdownWithDiagnostics(sample)
+
+    expect(diagnostics).toEqual([])
+    expect(tree.text).toBe('Project')
+    expect(tree.children.map((c) => c.text)).toEqual(['Goals', 'Risks'])
+
+    const [goals, risks] = tree.children
+    expect(goals.children.map((c) => c.text)).toEqual(['Ship **v1**', 'Keep `main` green'])
+    expect(goals.children[0].children[0].text).toBe('See [the plan](https://example.com/plan)')
+    expect(risks.children.map((c) => c.text)).toEqual(['Hiring', 'Scope'])
+    expect(risks.children[1].children[0].text).toBe('Creep')
+  })
+
+  it('should keep paragraphs as notes', () => {
+    const tree = parseMarkdown(sample)
+
+    expect(tree.children[1].note).toBe('Budget is tight.\n\nTimeline too.')
+  })
+
+  it('should attach a deeper heading to the heading above, not a list item', () => {
+    const tree = parseMarkdown('# Root\n## A\n- item\n### Sub\n- inner')
+    const a = tree.children[0]
+
+    expect(a.children.map((c) => c.text)).toEqual(['item', 'Sub'])
+    expect(a.children[1].children[0].text).toBe('inner')
+  })
+
+  it('should use leading text as the root', () => {
+    const tree = parseMarkdown('Groceries\n- Milk\n- Eggs')
+
+    expect(tree.text).toBe('Groceries')
+    expect(tree.children.map((c) => c.text)).toEqual(['Milk', 'Eggs'])
+  })
+
+  it('should keep code blocks in notes', () => {
+    const tree = parseMarkdown('# Root\n```\n# not a heading\n- not an item\n```')
+
+    expect(tree.children).toEqual([])
+    expect(tree.note).toBe('```\n# not a heading\n- not an item\n```')
+  })
+
+  it('should report extra top-level items', () => {
+    const { tree, diagnostics } = parseMarkdownWithDiagnostics('- A\n- B\n# C')
+
+    expect(tree.children.map((c) => c.text)).toEqual(['B', 'C'])
+    expect(diagnostics.map((d) => d.code)).toEqual(['extraRoot', 'extraRoot'])
+    expect(diagnostics[0].fix).toBeDefined()
+    expect(diagnostics[1].fix).toBeUndefined()
+  })
+
+  it('should strip closing hashes only when separated by a space', () => {
+    const tree = parseMarkdown('# Root ##\n## C#')
+
+    expect(tree.text).toBe('Root')
+    expect(tree.children[0].text).toBe('C#')
+  })
+
+  it('should keep collapsed flags from the previous tree', () => {
+    const previous = parseMarkdown('# Root\n## A\n- A1')
+    previous.children[0].collapsed = true
+
+    const tree = parseMarkdown('# Root\n## A\n- A1\n- A2', { previous })
+
+    expect(tree.children[0].collapsed).toBe(true)
+  })
+})
+
+describe('treeToMarkdown', () => {
+  const tree = parseTextToTree(
+    'Project\n  Goals\n    > Why we do it\n    Ship **v1**\n      [plan](https://example.com)\n  Risks'
+  )
+
+  it('should write headings with notes as paragraphs', () => {
+    expect(treeToMarkdown(tree, 'headings')).toBe(
+      '# Project\n\n## Goals\n\nWhy we do it\n\n### Ship **v1**\n\n#### [plan](https://example.com)\n\n## Risks'
+    )
+  })
+
+  it('should write a nested bullet list', () => {
+    expect(treeToMarkdown(tree, 'bullets')).toBe(
+      '- Project\n  - Goals\n    Why we do it\n    - Ship **v1**\n      - [plan](https://example.com)\n  - Risks'
+    )
+  })
+
+  it('should fall back to list items below six heading levels', () => {
+    const deep = parseTextToTree('1\n  2\n    3\n      4\n        5\n          6\n            7\n              8')
+
+    expect(treeToMarkdown(deep)).toContain('###### 6\n\n- 7\n  - 8')
+  })
+
+  it('should round-trip both styles', () => {
+    for (const style of ['headings', 'bullets'] as const) {
+      const parsed = parseMarkdown(treeToMarkdown(tree, style))
+
+      expect(treeToMarkdown(parsed, style)).toBe(treeToMarkdown(tree, style))
+      expect(parsed.children[0].children[0].children[0].text).toBe('[plan](https://example.com)')
+    }
+  })
+})
+
+describe('importFile', () => {
+  it('should open .md files as Markdown documents', () => {
+    expect(importFile('notes.md', '# Notes\n- a')).toEqual({
+      content: '# Notes\n- a',
+      format: 'markdown',
+    })
+  })
+})
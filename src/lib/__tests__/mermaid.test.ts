@@ -0,0 +1,135 @@
+/**
+ * Mermaid Format Tests
+ *
+ * Tests for reading and writing Mermaid mindmap diagrams.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  isMermaidMindmap,
+  parseMermaid,
+  parseMermaidWithDiagnostics,
+  treeToMermaid,
+} from '@/lib/formats/mermaid'
+import { convertDocument, detectFormat } from '@/lib/formats'
+import { parseTextToTree } from '@/lib/mindmap-parser'
+
+const sample = `mindmap
+  root((mindmap))
+    Origins
+      Long history
+      ::icon(fa fa-book)
+      Popularisation
+    id1[Research]
+      :::urgent large
+    id2)Tools(
+        Pen and paper
+        id3))Mermaid((
+    id4{{Hexagon}}
+    id5(Rounded)`
+
+describe('parseMermaid', () => {
+  it('should build a tree from relative indentation', () => {
+    const tree = parseMermaid(sample)
+
+    expect(tree.text).toBe('mindmap')
+    expect(tree.children.map((c) => c.text)).toEqual([
+      'Origins',
+      'Research',
+      'Tools',
+      'Hexagon',
+      'Rounded',
+    ])
+    expect(tree.children[2].children.map((c) => c.text)).toEqual(['Pen and paper', 'Mermaid'])
+  })
+
+  it('should read node shapes', () => {
+    const tree = parseMermaid(sample)
+
+    expect(tree.shape).toBe('circle')
+    expect(tree.children[0].shape).toBeUndefined()
+    expect(tree.children.slice(1).map((c) => c.shape)).toEqual([
+      'square',
+      'cloud',
+      'hexagon',
+      'rounded',
+    ])
+    expect(tree.children[2].children[1].shape).toBe('bang')
+  })
+
+  it('should attach icons and classes to the preceding node', () => {
+    const tree = parseMermaid(sample)
+
+    expect(tree.children[0].children[0].icon).toBe('fa fa-book')
+    expect(tree.children[1].classes).toEqual(['urgent', 'large'])
+  })
+
+  it('should skip comments, front matter and quotes', () => {
+    const tree = parseMermaid(
+      '---\ntitle: Demo\n---\nmindmap\n  %% comment\n  root["Quoted (text)"]\n    A'
+    )
+
+    expect(tree).toMatchObject({ text: 'Quoted (text)', shape: 'square' })
+    expect(tree.children.map((c) => c.text)).toEqual(['A'])
+  })
+
+  it('should report a missing header and orphan decorations', () => {
+    const { tree, diagnostics } = parseMermaidWithDiagnostics('::icon(fa fa-x)\nRoot\n  A')
+
+    expect(tree.text).toBe('Root')
+    expect(diagnostics.map((d) => d.code)).toEqual(['missingHeader', 'orphanDecoration'])
+  })
+
+  it('should report extra roots', () => {
+    const { diagnostics } = parseMermaidWithDiagnostics('mindmap\n  Root\n  Other')
+
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({ code: 'extraRoot', line: 3, params: { spaces: 4 } })
+  })
+
+  it('should keep collapsed flags from the previous tree', () => {
+    const previous = parseMermaid('mindmap\n  Root\n    A\n      A1')
+    previous.children[0].collapsed = true
+
+    const next = parseMermaid('mindmap\n  Root\n    A\n      A1\n    B', { previous })
+    expect(next.children[0].collapsed).toBe(true)
+    expect(next.children[1].collapsed).toBeUndefined()
+  })
+})
+
+describe('treeToMermaid', () => {
+  it('should round-trip shapes, icons and classes', () => {
+    const tree = parseMermaid(sample)
+    const again = parseMermaid(treeToMermaid(tree))
+
+    expect(again).toEqual(tree)
+  })
+
+  it('should write plain outlines without IDs', () => {
+    const text = treeToMermaid(parseTextToTree('Root\n  A\n    A1\n  B'))
+    expect(text).toBe('mindmap\n  Root\n    A\n      A1\n    B')
+  })
+
+  it('should quote text containing delimiters', () => {
+    const text = treeToMermaid(parseTextToTree('Root\n  Call f(x) "now"'))
+
+    expect(text).toBe('mindmap\n  Root\n    n1("Call f(x) #quot;now#quot;")')
+    expect(parseMermaid(text).children[0].text).toBe('Call f(x) "now"')
+  })
+})
+
+describe('format detection and conversion', () => {
+  it('should detect Mermaid mindmaps', () => {
+    expect(isMermaidMindmap(sample)).toBe(true)
+    expect(isMermaidMindmap('%% note\n\nmindmap\n  Root')).toBe(true)
+    expect(detectFormat('Root\n  A')).toBe('outline')
+  })
+
+  it('should convert between outline and Mermaid', () => {
+    const outline = 'Root\n  A\n    A1\n  B'
+    const mermaid = convertDocument(outline, 'outline', 'mermaid')
+
+    expect(mermaid.startsWith('mindmap\n')).toBe(true)
+    expect(convertDocument(mermaid, 'mermaid', 'outline')).toBe(outline)
+  })
+})
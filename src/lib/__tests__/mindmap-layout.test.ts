@@ -0,0 +1,227 @@
+/**
+ * Mindmap Layout Tests
+ *
+ * Tests for node positioning in each layout mode.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseTextToTree } from '@/lib/mindmap-parser'
+import {
+  calculateLayout,
+  flattenPositions,
+  getBoundingBox,
+  getConnectionPath,
+  getArrowLinks,
+  type LayoutOptions,
+  type NodePosition,
+} from '@/lib/mindmap-layout'
+import { estimateTextWidth } from '@/lib/text-measure'
+
+const layoutOf = (text: string, options: LayoutOptions = {}) =>
+  calculateLayout(parseTextToTree(text), { measureText: estimateTextWidth, ...options })
+
+const overlaps = (a: NodePosition, b: NodePosition) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+
+const expectNoOverlaps = (root: NodePosition) => {
+  const positions = flattenPositions(root)
+  positions.forEach((a, i) =>
+    positions.slice(i + 1).forEach((b) => expect(overlaps(a, b)).toBe(false))
+  )
+}
+
+const sample = `Root
+  A
+    A1
+    A2
+    A3
+  B
+    B1
+  C
+    C1
+    C2
+  D`
+
+describe('horizontal layout', () => {
+  it('should place children to the right of their parent', () => {
+    const layout = layoutOf(sample)
+
+    for (const child of layout.children) {
+      expect(child.x).toBeGreaterThan(layout.x + layout.width)
+      expect(child.direction).toBe('right')
+    }
+    expectNoOverlaps(layout)
+  })
+
+  it('should leave out the children of collapsed nodes', () => {
+    const layout = layoutOf('Root\n  A [+]\n    A1\n    A2\n  B')
+
+    expect(flattenPositions(layout)).toHaveLength(3)
+    expect(layout.children[0].children).toEqual([])
+  })
+
+  it('should record the depth of each node', () => {
+    const layout = layoutOf('Root\n  A\n    A1')
+    expect(layout.depth).toBe(0)
+    expect(layout.children[0].children[0].depth).toBe(2)
+  })
+})
+
+describe('balanced layout', () => {
+  it('should put branches on both sides of the root', () => {
+    const layout = layoutOf(sample, { mode: 'balanced' })
+    const right = layout.children.filter((c) => c.direction === 'right')
+    const left = layout.children.filter((c) => c.direction === 'left')
+
+    expect(right.length).toBeGreaterThan(0)
+    expect(left.length).toBeGreaterThan(0)
+    right.forEach((c) => expect(c.x).toBeGreaterThan(layout.x + layout.width))
+    left.forEach((c) => expect(c.x + c.width).toBeLessThan(layout.x))
+    expectNoOverlaps(layout)
+  })
+
+  it('should keep children in document order', () => {
+    const layout = layoutOf(sample, { mode: 'balanced' })
+    expect(layout.children.map((c) => c.node.text)).toEqual(['A', 'B', 'C', 'D'])
+  })
+
+  it('should mirror grandchildren on the left side', () => {
+    const layout = layoutOf(sample, { mode: 'balanced' })
+    const leftBranch = layout.children.find((c) => c.direction === 'left' && c.children.length > 0)!
+
+    for (const grandchild of leftBranch.children) {
+      expect(grandchild.direction).toBe('left')
+      expect(grandchild.x + grandchild.width).toBeLessThan(leftBranch.x)
+    }
+  })
+
+  it('should balance subtree heights between the sides', () => {
+    const layout = layoutOf(sample, { mode: 'balanced' })
+    const sideHeight = (direction: string) =>
+      layout.children
+        .filter((c) => c.direction === direction)
+        .reduce((sum, c) => sum + getBoundingBox(c).height, 0)
+
+    const right = sideHeight('right')
+    const left = sideHeight('left')
+    expect(Math.abs(right - left)).toBeLessThan(Math.max(right, left))
+  })
+
+  it('should center both sides vertically on the root', () => {
+    const layout = layoutOf(sample, { mode: 'balanced' })
+    const box = getBoundingBox(layout)
+    const rootCenter = layout.y + layout.height / 2
+
+    expect(box.minY).toBeLessThan(rootCenter)
+    expect(box.maxY).toBeGreaterThan(rootCenter)
+  })
+})
+
+describe('radial layout', () => {
+  const center = (pos: NodePosition) => ({
+    x: pos.x + pos.width / 2,
+    y: pos.y + pos.height / 2,
+  })
+  const distance = (pos: NodePosition) => Math.hypot(center(pos).x, center(pos).y)
+
+  it('should center the root on the origin', () => {
+    const layout = layoutOf(sample, { mode: 'radial' })
+    expect(center(layout).x).toBeCloseTo(0)
+    expect(center(layout).y).toBeCloseTo(0)
+  })
+
+  it('should put each depth on its own ring', () => {
+    const layout = layoutOf(sample, { mode: 'radial' })
+    const ring1 = layout.children.map(distance)
+    const ring2 = layout.children.flatMap((c) => c.children).map(distance)
+
+    ring1.forEach((r) => expect(r).toBeCloseTo(ring1[0]))
+    ring2.forEach((r) => expect(r).toBeCloseTo(ring2[0]))
+    expect(ring2[0]).toBeGreaterThan(ring1[0])
+  })
+
+  it('should give subtrees wedges proportional to their leaf count', () => {
+    const layout = layoutOf('Root\n  A\n    A1\n    A2\n    A3\n  B', { mode: 'radial' })
+    const [a, b] = layout.children
+
+    // A has 3 of 4 leaves: its wedge is centered 3/8 of a turn after 12 o'clock
+    expect(a.angle).toBeCloseTo(-Math.PI / 2 + (Math.PI * 2 * 3) / 8)
+    expect(b.angle).toBeCloseTo(-Math.PI / 2 + Math.PI * 2 * (3 / 4 + 1 / 8))
+  })
+
+  it('should not overlap nodes', () => {
+    expectNoOverlaps(layoutOf(sample, { mode: 'radial' }))
+  })
+
+  it('should draw straight connections between box edges', () => {
+    const layout = layoutOf(sample, { mode: 'radial' })
+    expect(getConnectionPath(layout, layout.children[0])).toMatch(/^M [-\d.e]+ [-\d.e]+ L /)
+  })
+})
+
+describe('org chart layout', () => {
+  it('should hang children below their parent', () => {
+    const layout = layoutOf(sample, { mode: 'orgchart' })
+
+    for (const child of layout.children) {
+      expect(child.y).toBeGreaterThan(layout.y + layout.height)
+      expect(child.direction).toBe('down')
+    }
+    expectNoOverlaps(layout)
+  })
+
+  it('should align each depth on one row', () => {
+    const layout = layoutOf(sample, { mode: 'orgchart' })
+    const tops = layout.children.map((c) => c.y)
+    tops.forEach((y) => expect(y).toBe(tops[0]))
+  })
+
+  it('should center parents over their children', () => {
+    const layout = layoutOf(sample, { mode: 'orgchart' })
+    const first = layout.children[0]
+    const last = layout.children[layout.children.length - 1]
+    const childrenCenter = (first.x + first.width / 2 + last.x + last.width / 2) / 2
+
+    expect(layout.x + layout.width / 2).toBeCloseTo(childrenCenter)
+  })
+
+  it('should order siblings left to right', () => {
+    const layout = layoutOf(sample, { mode: 'orgchart' })
+    const xs = layout.children.map((c) => c.x)
+    expect([...xs].sort((a, b) => a - b)).toEqual(xs)
+  })
+
+  it('should draw orthogonal elbow connectors', () => {
+    const layout = layoutOf(sample, { mode: 'orgchart' })
+    expect(getConnectionPath(layout, layout.children[0])).toMatch(/^M \S+ \S+ V \S+ H \S+ V \S+$/)
+  })
+})
+
+describe('tidy packing', () => {
+  it('should pack shallow branches beside deep ones instead of below them', () => {
+    // The deep branch only widens at depth 3, so B can sit right next to A
+    const text = 'Root\n  A\n    A1\n      X\n      Y\n      Z\n  B'
+    const layout = layoutOf(text)
+    const [a, b] = layout.children
+
+    expect(b.y - (a.y + a.height)).toBeLessThan(getBoundingBox(a).height)
+    expectNoOverlaps(layout)
+  })
+
+  it('should align each depth in one column', () => {
+    const layout = layoutOf(sample)
+    const grandchildren = layout.children.flatMap((c) => c.children)
+    grandchildren.forEach((g) => expect(g.x).toBe(grandchildren[0].x))
+  })
+})
+
+describe('arrow links', () => {
+  it('should resolve arrows to visible nodes by text', () => {
+    const layout = layoutOf('Root\n  A\n    @arrow B\n    @arrow Missing\n  B [+]\n    B1\n  C\n    @arrow B1')
+    const links = getArrowLinks(flattenPositions(layout))
+
+    expect(links).toHaveLength(1)
+    expect(links[0].from.node.text).toBe('A')
+    expect(links[0].to.node.text).toBe('B')
+  })
+})
@@ -0,0 +1,276 @@
+/**
+ * Mindmap Parser Tests
+ *
+ * Tests for text-to-tree parsing, parse diagnostics, node IDs, folding,
+ * notes and node attributes.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseTextToTree,
+  parseTextWithDiagnostics,
+  getLineOffset,
+  treeToText,
+  setLineCollapsed,
+} from '@/lib/mindmap-parser'
+import type { MindmapNode } from '@/schemas'
+
+describe('parseTextToTree', () => {
+  it('should build a tree from 2-space indentation', () => {
+    const tree = parseTextToTree('Root\n  A\n    A1\n  B')
+
+    expect(tree.text).toBe('Root')
+    expect(tree.children.map((c) => c.text)).toEqual(['A', 'B'])
+    expect(tree.children[0].children[0].text).toBe('A1')
+  })
+
+  it('should return a placeholder for empty input', () => {
+    expect(parseTextToTree('  \n\n').text).toBe('Empty Mindmap')
+  })
+
+  it('should round-trip through treeToText', () => {
+    const text = 'Root\n  A\n    A1\n  B'
+    expect(treeToText(parseTextToTree(text))).toBe(text)
+  })
+})
+
+describe('parseTextWithDiagnostics', () => {
+  it('should report nothing for well-formed input', () => {
+    const { diagnostics } = parseTextWithDiagnostics('Root\n  A\n    A1\n  B')
+    expect(diagnostics).toEqual([])
+  })
+
+  it('should report odd indentation with its line number', () => {
+    const { diagnostics } = parseTextWithDiagnostics('Root\n  A\n   B')
+
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({
+      code: 'oddIndent',
+      severity: 'warning',
+      line: 3,
+      column: 1,
+    })
+    expect(diagnostics[0].fix).toBeDefined()
+  })
+
+  it('should report tabs in indentation', () => {
+    const { diagnostics } = parseTextWithDiagnostics('Root\n  \tA')
+
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({ code: 'tabIndent', line: 2, column: 3 })
+  })
+
+  it('should report children that skip a level', () => {
+    const { tree, diagnostics } = parseTextWithDiagnostics('Root\n  A\n      Deep')
+
+    expect(tree.children[0].children[0].text).toBe('Deep')
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({
+      code: 'skippedLevel',
+      line: 3,
+      column: 7,
+      params: { parent: 'A', levels: 2 },
+    })
+  })
+
+  it('should report extra root-level lines', () => {
+    const { tree, diagnostics } = parseTextWithDiagnostics('Root\n  A\n\nSecond')
+
+    expect(tree.children.map((c) => c.text)).toEqual(['A', 'Second'])
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({ code: 'extraRoot', line: 4, column: 1 })
+  })
+})
+
+describe('getLineOffset', () => {
+  it('should convert line and column to a character offset', () => {
+    const text = 'Root\n  A\n   B'
+    expect(getLineOffset(text, 1)).toBe(0)
+    expect(getLineOffset(text, 2)).toBe(5)
+    expect(getLineOffset(text, 3, 4)).toBe(12)
+  })
+})
+
+describe('node IDs', () => {
+  const collectIds = (node: ReturnType<typeof parseTextToTree>): string[] => [
+    node.id,
+    ...node.children.flatMap(collectIds),
+  ]
+
+  it('should be deterministic for the same text', () => {
+    const text = 'Root\n  A\n    A1\n  B'
+    expect(collectIds(parseTextToTree(text))).toEqual(collectIds(parseTextToTree(text)))
+  })
+
+  it('should be unique for repeated sibling text', () => {
+    const ids = collectIds(parseTextToTree('Root\n  A\n  A\n  A'))
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it('should keep IDs when a sibling is inserted before a node', () => {
+    const previous = parseTextToTree('Root\n  A\n    A1\n  B')
+    const next = parseTextToTree('Root\n  New\n  A\n    A1\n  B', { previous })
+
+    expect(next.children[1].id).toBe(previous.children[0].id)
+    expect(next.children[1].children[0].id).toBe(previous.children[0].children[0].id)
+    expect(next.children[2].id).toBe(previous.children[1].id)
+  })
+
+  it('should keep the ID of a renamed node and its children', () => {
+    const previous = parseTextToTree('Root\n  A\n    A1\n  B')
+    const next = parseTextToTree('Root\n  Renamed\n    A1\n  B', { previous })
+
+    expect(next.children[0].id).toBe(previous.children[0].id)
+    expect(next.children[0].children[0].id).toBe(previous.children[0].children[0].id)
+  })
+
+  it('should keep the root ID when the root text changes', () => {
+    const previous = parseTextToTree('Root\n  A')
+    const next = parseTextToTree('Main\n  A', { previous })
+
+    expect(next.id).toBe(previous.id)
+    expect(next.children[0].id).toBe(previous.children[0].id)
+  })
+})
+
+describe('collapsed nodes', () => {
+  it('should read the [+] marker as collapsed', () => {
+    const tree = parseTextToTree('Root\n  A [+]\n    A1\n  B')
+
+    expect(tree.children[0]).toMatchObject({ text: 'A', collapsed: true })
+    expect(tree.children[1].collapsed).toBeUndefined()
+  })
+
+  it('should write the marker back in treeToText', () => {
+    const text = 'Root\n  A [+]\n    A1\n  B'
+    expect(treeToText(parseTextToTree(text))).toBe(text)
+  })
+
+  it('should keep IDs when a node is folded', () => {
+    const previous = parseTextToTree('Root\n  A\n    A1')
+    const next = parseTextToTree('Root\n  A [+]\n    A1')
+    expect(next.children[0].id).toBe(previous.children[0].id)
+  })
+
+  it('should map node IDs to source lines', () => {
+    const { tree, lines } = parseTextWithDiagnostics('Root\n\n  A\n    A1\n  B')
+
+    expect(lines.get(tree.id)).toBe(1)
+    expect(lines.get(tree.children[0].id)).toBe(3)
+    expect(lines.get(tree.children[0].children[0].id)).toBe(4)
+    expect(lines.get(tree.children[1].id)).toBe(5)
+  })
+
+  it('should toggle the marker on a line', () => {
+    const folded = setLineCollapsed('Root\n  A\n    A1', 2, true)
+    expect(folded).toBe('Root\n  A [+]\n    A1')
+    expect(setLineCollapsed(folded, 2, false)).toBe('Root\n  A\n    A1')
+  })
+
+  it('should escape texts ending in the marker', () => {
+    const tree: MindmapNode = {
+      id: 'root',
+      text: 'Root',
+      children: [
+        { id: 'a', text: 'Toggle [+]', children: [] },
+        { id: 'b', text: 'Also [+]', collapsed: true, children: [{ id: 'c', text: '[+]', children: [] }] },
+      ],
+    }
+
+    const text = treeToText(tree)
+    expect(text).toBe('Root\n  Toggle \\[+]\n  Also \\[+] [+]\n    \\[+]')
+    const reparsed = parseTextToTree(text)
+    expect(reparsed.children.map((c) => [c.text, c.collapsed])).toEqual([
+      ['Toggle [+]', undefined],
+      ['Also [+]', true],
+    ])
+    expect(reparsed.children[1].children[0].text).toBe('[+]')
+  })
+
+  it('should fold and unfold lines with an escaped marker', () => {
+    const folded = setLineCollapsed('Root\n  A \\[+]', 2, true)
+    expect(folded).toBe('Root\n  A \\[+] [+]')
+    expect(parseTextToTree(folded).children[0]).toMatchObject({ text: 'A [+]', collapsed: true })
+    expect(setLineCollapsed(folded, 2, false)).toBe('Root\n  A \\[+]')
+  })
+})
+
+describe('notes', () => {
+  it('should attach > lines to the node above', () => {
+    const tree = parseTextToTree('Root\n  A\n    > First\n    >\n    > Third\n    A1\n  B')
+
+    expect(tree.children[0].note).toBe('First\n\nThird')
+    expect(tree.children[0].children.map((c) => c.text)).toEqual(['A1'])
+    expect(tree.children[1].note).toBeUndefined()
+  })
+
+  it('should write notes back in treeToText', () => {
+    const text = 'Root\n  > Root note\n  A [+]\n    > Note\n    A1'
+    expect(treeToText(parseTextToTree(text))).toBe(text)
+  })
+
+  it('should escape node texts that look like notes', () => {
+    const tree: MindmapNode = {
+      id: 'root',
+      text: 'Root',
+      children: [
+        { id: 'a', text: '> quote', children: [] },
+        { id: 'b', text: '>', children: [] },
+        { id: 'c', text: '\\path', children: [] },
+      ],
+    }
+
+    const text = treeToText(tree)
+    expect(text).toBe('Root\n  \\> quote\n  \\>\n  \\\\path')
+    const reparsed = parseTextToTree(text)
+    expect(reparsed.note).toBeUndefined()
+    expect(reparsed.children.map((c) => c.text)).toEqual(['> quote', '>', '\\path'])
+  })
+
+  it('should report a note before any node', () => {
+    const { diagnostics } = parseTextWithDiagnostics('> Stray\nRoot')
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0]).toMatchObject({ code: 'orphanDecoration', line: 1 })
+  })
+})
+
+describe('node attributes', () => {
+  it('should read @color, @link and @arrow lines', () => {
+    const tree = parseTextToTree(
+      'Root\n  A\n    @color #ff0000\n    @link https://example.com\n    @arrow B\n    @arrow C\n  B\n  C'
+    )
+
+    expect(tree.children[0]).toMatchObject({
+      color: '#ff0000',
+      link: 'https://example.com',
+      arrows: ['B', 'C'],
+    })
+    expect(tree.children.map((c) => c.text)).toEqual(['A', 'B', 'C'])
+  })
+
+  it('should keep other lines starting with @ as nodes', () => {
+    const tree = parseTextToTree('Root\n  @mention someone')
+    expect(tree.children[0].text).toBe('@mention someone')
+  })
+
+  it('should escape node texts that look like attributes', () => {
+    const texts = ['@color me', '@link here', '@arrow up', '@label this', '@marker pen']
+    const tree: MindmapNode = {
+      id: 'root',
+      text: 'Root',
+      children: texts.map((text, i) => ({ id: `n${i}`, text, children: [] })),
+    }
+
+    const text = treeToText(tree)
+    expect(text.split('\n')[1]).toBe('  \\@color me')
+    const reparsed = parseTextToTree(text)
+    expect(reparsed).not.toHaveProperty('color')
+    expect(reparsed.children.map((c) => c.text)).toEqual(texts)
+  })
+
+  it('should write attributes back in treeToText', () => {
+    const text =
+      'Root\n  A\n    > Note\n    @color red\n    @link https://example.com\n    @arrow B\n    @label draft\n    @marker priority-1\n  B'
+    expect(treeToText(parseTextToTree(text))).toBe(text)
+  })
+})
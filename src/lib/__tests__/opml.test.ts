@@ -0,0 +1,120 @@
+/**
+ * OPML Format Tests
+ *
+ * Tests for reading and writing OPML outlines.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { isOpml, parseOpml, treeToOpml } from '@/lib/formats/opml'
+import { importFile } from '@/lib/formats'
+import { parseTextToTree, treeToText } from '@/lib/mindmap-parser'
+
+const sample = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>Plans</title>
+    <expansionState>0,2</expansionState>
+  </head>
+  <body>
+    <outline text="Root">
+      <outline text="A" _note="First line&#10;Second line">
+        <outline text="A1"/>
+      </outline>
+      <outline text="B">
+        <outline text="B1"/>
+      </outline>
+    </outline>
+  </body>
+</opml>`
+
+describe('parseOpml', () => {
+  it('should read outlines, notes and the title', () => {
+    const { title, tree } = parseOpml(sample)
+
+    expect(title).toBe('Plans')
+    expect(tree.text).toBe('Root')
+    expect(tree.children.map((c) => c.text)).toEqual(['A', 'B'])
+    expect(tree.children[0].note).toBe('First line\nSecond line')
+  })
+
+  it('should collapse nodes missing from the expansion state', () => {
+    const { tree } = parseOpml(sample)
+
+    // Visible lines: 0 Root, 1 A, 2 B, 3 B1; A is not expanded
+    expect(tree.collapsed).toBeUndefined()
+    expect(tree.children[0].collapsed).toBe(true)
+    expect(tree.children[1].collapsed).toBeUndefined()
+  })
+
+  it('should give nodes the IDs of the equivalent outline text', () => {
+    const { tree } = parseOpml(sample)
+    expect(tree).toEqual(parseTextToTree(treeToText(tree)))
+  })
+
+  it('should put several top-level outlines under a titled root', () => {
+    const { tree } = parseOpml(
+      '<opml version="2.0"><head><title>Inbox</title></head><body><outline text="One"/><outline text="Two"/></body></opml>'
+    )
+
+    expect(tree.text).toBe('Inbox')
+    expect(tree.children.map((c) => c.text)).toEqual(['One', 'Two'])
+  })
+
+  it('should reject documents that are not OPML', () => {
+    expect(() => parseOpml('<html><body/></html>')).toThrow()
+    expect(() => parseOpml('Root\n  A')).toThrow()
+  })
+})
+
+describe('treeToOpml', () => {
+  it('should round-trip notes and collapsed state', () => {
+    const tree = parseTextToTree('Root\n  A [+]\n    > Note with <tags> & "quotes"\n    A1\n  B\n    B1')
+    const { tree: again } = parseOpml(treeToOpml(tree))
+
+    expect(again).toEqual(tree)
+  })
+
+  it('should write the expansion state of visible expanded nodes', () => {
+    const opml = treeToOpml(parseTextToTree('Root\n  A [+]\n    A1\n  B\n    B1'), 'Doc')
+
+    expect(opml).toContain('<title>Doc</title>')
+    expect(opml).toContain('<expansionState>0,2</expansionState>')
+    expect(isOpml(opml)).toBe(true)
+  })
+})
+
+describe('importFile', () => {
+  it('should keep titles that look like outline syntax', () => {
+    const opml = `<opml version="2.0"><body>
+      <outline text="Root">
+        <outline text="&gt; quote"/>
+        <outline text="Toggle [+]"/>
+      </outline>
+    </body></opml>`
+    const tree = parseTextToTree(importFile('quotes.opml', opml).content)
+
+    expect(tree.note).toBeUndefined()
+    expect(tree.children.map((c) => [c.text, c.collapsed])).toEqual([
+      ['> quote', undefined],
+      ['Toggle [+]', undefined],
+    ])
+  })
+
+  it('should convert OPML files to outline documents', () => {
+    const imported = importFile('plans.opml', sample)
+
+    expect(imported.format).toBe('outline')
+    expect(imported.title).toBe('Plans')
+    expect(imported.content).toBe(
+      'Root\n  A [+]\n    > First line\n    > Second line\n    A1\n  B\n    B1'
+    )
+  })
+
+  it('should open Mermaid and outline text as-is', () => {
+    expect(importFile('map.mmd', 'mindmap\n  Root')).toEqual({
+      content: 'mindmap\n  Root',
+      format: 'mermaid',
+    })
+    expect(importFile('notes.txt', 'Root\n  A').format).toBe('outline')
+  })
+})
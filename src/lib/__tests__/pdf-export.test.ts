@@ -0,0 +1,71 @@
+/**
+ * PDF Export Tests
+ *
+ * Tests for page planning and page content of PDF export.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildMapPageContent, planPdfPages } from '@/lib/pdf-export'
+
+describe('planPdfPages', () => {
+  it('should fit a wide map on one landscape page', () => {
+    const [page, ...rest] = planPdfPages(2000, 500, 'a4', 'fit')
+
+    expect(rest).toEqual([])
+    expect(page.width).toBeGreaterThan(page.height)
+    expect(2000 * page.scale).toBeLessThanOrEqual(page.width - 72)
+    expect(500 * page.scale).toBeLessThanOrEqual(page.height - 72)
+  })
+
+  it('should center a fitted map', () => {
+    const [page] = planPdfPages(300, 300, 'letter', 'fit')
+    const area = { width: page.width - 72, height: page.height - 72 }
+
+    expect(page.offsetX).toBeCloseTo(-(area.width - 300 * page.scale) / 2)
+    expect(page.offsetY).toBeCloseTo(-(area.height - 300 * page.scale) / 2)
+  })
+
+  it('should not enlarge small maps too much', () => {
+    const [page] = planPdfPages(50, 20, 'a4', 'fit')
+
+    expect(page.scale).toBe(1.5)
+  })
+
+  it('should tile a large map with overlapping pages', () => {
+    const pages = planPdfPages(3000, 1000, 'a4', 'tile')
+    const { columns, rows } = pages[0]
+
+    expect(pages).toHaveLength(columns * rows)
+    expect(columns).toBeGreaterThan(1)
+    expect(pages.every((page) => page.scale === 0.75)).toBe(true)
+
+    // Each page starts before the previous one ends
+    const area = pages[0].width - 72
+    expect(pages[1].offsetX).toBeLessThan(pages[0].offsetX + area)
+    // The last column reaches the right edge of the map
+    expect(pages[columns - 1].offsetX + area).toBeGreaterThanOrEqual(3000 * 0.75)
+  })
+
+  it('should use a single page for a map that fits at print size', () => {
+    expect(planPdfPages(400, 300, 'letter', 'tile')).toHaveLength(1)
+  })
+})
+
+describe('buildMapPageContent', () => {
+  it('should clip to the printable area and draw the map image', () => {
+    const [page] = planPdfPages(400, 300, 'a4', 'tile')
+    const content = buildMapPageContent(page, 400, 300)
+
+    expect(content).toContain('re W n')
+    expect(content).toContain('/Im0 Do')
+    expect(content).not.toContain(' l S')
+  })
+
+  it('should mark overlaps on inner edges only', () => {
+    const pages = planPdfPages(3000, 400, 'a4', 'tile')
+    const count = (content: string) => content.split(' l S').length - 1
+
+    expect(count(buildMapPageContent(pages[0], 3000, 400))).toBe(1)
+    expect(count(buildMapPageContent(pages[1], 3000, 400))).toBe(pages[0].columns > 2 ? 2 : 1)
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * PDF Writer Tests
+ *
+ * Tests for the structure of generated PDF files.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createPdf } from '@/lib/pdf'
+
+const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes)
+
+const jpeg = { data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), width: 2, height: 1 }
+
+describe('createPdf', () => {
+  it('should write a header, trailer and one page object per page', () => {
+    const text = decode(
+      createPdf(
+        [
+          { width: 100, height: 200, content: '/Im0 Do' },
+          { width: 200, height: 100, content: '' },
+        ],
+        [jpeg]
+      )
+    )
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true)
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(text).toContain('/Count 2')
+    expect(text).toContain('/MediaBox [0 0 100 200]')
+    expect(text).toContain('/MediaBox [0 0 200 100]')
+    expect(text).toContain('/Width 2 /Height 1')
+    expect(text).toContain('/Filter /DCTDecode')
+  })
+
+  it('should point every cross-reference entry at its object', () => {
+    const text = decode(createPdf([{ width: 10, height: 10, content: 'q Q' }], [jpeg]))
+
+    const xrefOffset = Number(text.match(/startxref\n(\d+)/)![1])
+    expect(text.slice(xrefOffset, xrefOffset + 4)).toBe('xref')
+
+    const entries = text.slice(xrefOffset).split('\n').slice(3)
+    const count = Number(text.match(/\/Size (\d+)/)![1])
+    for (let number = 1; number < count; number++) {
+      const offset = Number(entries[number - 1].slice(0, 10))
+      expect(text.slice(offset).startsWith(`${number} 0 obj`)).toBe(true)
+    }
+  })
+
+  it('should store the title as UTF-16', () => {
+    const text = decode(createPdf([{ width: 10, height: 10, content: '' }], [], { title: '지도' }))
+
+    expect(text).toContain('/Title <FEFFC9C0B3C4>')
+  })
+
+  it('should reject an empty document', () => {
+    expect(() => createPdf([], [])).toThrow()
+  })
+})
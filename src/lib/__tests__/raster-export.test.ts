@@ -0,0 +1,45 @@
+/**
+ * Raster Export Tests
+ *
+ * Tests for the size and background rules of PNG / JPEG export.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { fitRasterScale, resolveBackground } from '@/lib/raster-export'
+
+describe('fitRasterScale', () => {
+  it('should keep the requested scale when the canvas fits', () => {
+    expect(fitRasterScale(800, 600, 4)).toBe(4)
+  })
+
+  it('should lower the scale for very wide maps', () => {
+    expect(fitRasterScale(8192, 100, 4)).toBe(2)
+  })
+
+  it('should lower the scale for very large maps', () => {
+    const scale = fitRasterScale(10000, 10000, 4)
+
+    expect(scale).toBeLessThan(1)
+    expect(10000 * scale * 10000 * scale).toBeLessThanOrEqual(16384 * 4096)
+  })
+})
+
+describe('resolveBackground', () => {
+  afterEach(() => {
+    document.documentElement.style.removeProperty('--background')
+  })
+
+  it('should leave PNG transparent', () => {
+    expect(resolveBackground('transparent', 'png')).toBeNull()
+  })
+
+  it('should fill transparent JPEG with white', () => {
+    expect(resolveBackground('transparent', 'jpeg')).toBe('#ffffff')
+  })
+
+  it('should use the theme background color', () => {
+    document.documentElement.style.setProperty('--background', '#101010')
+
+    expect(resolveBackground('theme', 'png')).toBe('#101010')
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Share Link Tests
+ *
+ * Tests for encoding documents into share URLs and reading them back.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildShareUrl,
+  decodeShare,
+  encodeShare,
+  getSharePayload,
+  getShareUrlStatus,
+} from '@/lib/share'
+import { deflateRaw } from '@/lib/compression'
+
+const share = {
+  title: '계획 & Plans',
+  content: 'Root\n  Child 👋\n    > note',
+  format: 'outline' as const,
+  layout: 'radial' as const,
+}
+
+describe('encodeShare / decodeShare', () => {
+  it('should round-trip a document', async () => {
+    expect(await decodeShare(await encodeShare(share))).toEqual(share)
+  })
+
+  it('should only use URL-safe characters', async () => {
+    expect(await encodeShare(share)).toMatch(/^[A-Za-z0-9_-]+$/)
+  })
+
+  it('should compress repetitive content', async () => {
+    const content = 'Root\n' + '  Same child\n'.repeat(500)
+
+    expect((await encodeShare({ title: 'Big', content })).length).toBeLessThan(content.length / 10)
+  })
+
+  it('should reject corrupt payloads', async () => {
+    await expect(decodeShare('not-a-payload')).rejects.toThrow()
+  })
+
+  it('should reject payloads that are not shared documents', async () => {
+    const bytes = await deflateRaw(new TextEncoder().encode(JSON.stringify({ title: 1 })))
+    const payload = btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '')
+
+    await expect(decodeShare(payload)).rejects.toThrow()
+  })
+})
+
+describe('buildShareUrl', () => {
+  it('should put the document in the fragment of an embed URL', async () => {
+    const url = await buildShareUrl('https://maps.example.com', share)
+    const { hash, pathname } = new URL(url)
+
+    expect(pathname).toBe('/embed')
+    expect(await decodeShare(getSharePayload(hash)!)).toEqual(share)
+  })
+})
+
+describe('getSharePayload', () => {
+  it('should read the payload with or without a leading #', () => {
+    expect(getSharePayload('#m=abc')).toBe('abc')
+    expect(getSharePayload('m=abc')).toBe('abc')
+    expect(getSharePayload('#other=1')).toBeNull()
+  })
+})
+
+describe('getShareUrlStatus', () => {
+  it('should flag long and too long URLs', () => {
+    expect(getShareUrlStatus('x'.repeat(100))).toBe('ok')
+    expect(getShareUrlStatus('x'.repeat(5000))).toBe('long')
+    expect(getShareUrlStatus('x'.repeat(50000))).toBe('tooLong')
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * SVG Export Tests
+ *
+ * Tests for rendering trees as standalone SVG documents.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseTextToTree } from '@/lib/mindmap-parser'
+import { calculateLayout, getBoundingBox } from '@/lib/mindmap-layout'
+import { estimateTextWidth } from '@/lib/text-measure'
+import { renderMindmapSvg } from '@/lib/svg-export'
+import { toFontFaceRule } from '@/lib/node-font'
+
+const tree = parseTextToTree('Root\n  A & B\n    A1\n  C\n    @arrow A1')
+
+const parseSvg = (svg: string) =>
+  new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement
+
+describe('renderMindmapSvg', () => {
+  it('should size the image to the map plus padding', () => {
+    const box = getBoundingBox(calculateLayout(tree, { measureText: estimateTextWidth }))
+    const { svg, width, height } = renderMindmapSvg(tree, {
+      measureText: estimateTextWidth,
+      padding: 10,
+    })
+    const element = parseSvg(svg)
+
+    expect(width).toBe(Math.ceil(box.width + 20))
+    expect(height).toBe(Math.ceil(box.height + 20))
+    expect(element.getAttribute('viewBox')).toBe(
+      `${box.minX - 10} ${box.minY - 10} ${width} ${height}`
+    )
+  })
+
+  it('should produce well-formed standalone SVG', () => {
+    const { svg } = renderMindmapSvg(tree, {
+      measureText: estimateTextWidth,
+      title: 'Plans <draft>',
+    })
+    const element = parseSvg(svg)
+
+    expect(svg.startsWith('<?xml')).toBe(true)
+    expect(element.nodeName).toBe('svg')
+    expect(element.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg')
+    expect(element.querySelector('title')?.textContent).toBe('Plans <draft>')
+    expect(Array.from(element.querySelectorAll('tspan')).map((t) => t.textContent)).toEqual([
+      'Root',
+      'A & B',
+      'A1',
+      'C',
+    ])
+  })
+
+  it('should inline styles instead of using CSS classes', () => {
+    const { svg } = renderMindmapSvg(tree, { measureText: estimateTextWidth })
+    const element = parseSvg(svg)
+
+    expect(element.querySelector('[class]')).toBeNull()
+    expect(element.querySelector('marker#arrow')).not.toBeNull()
+    expect(element.querySelector('text')?.getAttribute('font-family')).toBeTruthy()
+  })
+
+  it('should embed the node font', () => {
+    const fontFaces = toFontFaceRule(400, 'data:font/woff2;base64,AAAA')
+    const { svg } = renderMindmapSvg(tree, { measureText: estimateTextWidth, fontFaces })
+    const element = parseSvg(svg)
+
+    expect(element.querySelector('defs > style')?.textContent).toBe(fontFaces)
+    expect(element.querySelector('text')?.getAttribute('font-family')).toMatch(/^Inter,/)
+  })
+
+  it('should embed no font before it is loaded', () => {
+    const { svg } = renderMindmapSvg(tree, { measureText: estimateTextWidth })
+    expect(parseSvg(svg).querySelector('style')).toBeNull()
+  })
+})
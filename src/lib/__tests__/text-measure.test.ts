@@ -0,0 +1,74 @@
+/**
+ * Text Measurement Tests
+ *
+ * Tests for width estimation and label wrapping used by the layout engine.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { estimateTextWidth, wrapText, type FontSpec } from '@/lib/text-measure'
+import { parseTextToTree } from '@/lib/mindmap-parser'
+import { calculateLayout } from '@/lib/mindmap-layout'
+
+const font: FontSpec = { size: 10, family: 'sans-serif' }
+
+describe('estimateTextWidth', () => {
+  it('should count CJK characters as full width', () => {
+    expect(estimateTextWidth('한국어', font)).toBe(30)
+    expect(estimateTextWidth('日本語', font)).toBe(30)
+  })
+
+  it('should count latin characters as narrower', () => {
+    expect(estimateTextWidth('abc', font)).toBeCloseTo(18)
+  })
+})
+
+describe('wrapText', () => {
+  it('should keep short text on one line', () => {
+    expect(wrapText('Hello world', 200, font, estimateTextWidth)).toEqual(['Hello world'])
+  })
+
+  it('should break at spaces', () => {
+    expect(wrapText('alpha beta gamma', 50, font, estimateTextWidth)).toEqual([
+      'alpha',
+      'beta',
+      'gamma',
+    ])
+  })
+
+  it('should break between CJK characters', () => {
+    expect(wrapText('마인드맵편집기', 40, font, estimateTextWidth)).toEqual([
+      '마인드맵',
+      '편집기',
+    ])
+  })
+
+  it('should break overlong words by character', () => {
+    expect(wrapText('abcdefghij', 30, font, estimateTextWidth)).toEqual(['abcde', 'fghij'])
+  })
+})
+
+describe('calculateLayout text sizing', () => {
+  it('should grow nodes for wide labels and wrap long ones', () => {
+    const tree = parseTextToTree(
+      'Root\n  짧은\n  아주 긴 한국어 레이블은 노드 너비를 넘어가면 여러 줄로 나뉘어야 합니다'
+    )
+    const layout = calculateLayout(tree, { measureText: estimateTextWidth })
+    const [short, long] = layout.children
+
+    expect(short.lines).toEqual(['짧은'])
+    expect(long.lines.length).toBeGreaterThan(1)
+    expect(long.lines.join('').replace(/\s/g, '')).toBe(
+      tree.children[1].text.replace(/\s/g, '')
+    )
+    expect(long.height).toBeGreaterThan(short.height)
+  })
+
+  it('should keep siblings from overlapping', () => {
+    const tree = parseTextToTree(
+      'Root\n  ' + 'word '.repeat(40).trim() + '\n  Next'
+    )
+    const [first, second] = calculateLayout(tree, { measureText: estimateTextWidth }).children
+
+    expect(second.y).toBeGreaterThanOrEqual(first.y + first.height)
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Tidy Tree Tests
+ *
+ * Tests for contour packing in the Buchheim–Walker placement.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeTidyCenters, type TidyNode } from '@/lib/tidy-tree'
+
+const options = { siblingGap: 10, subtreeGap: 10 }
+
+const leaf = (breadth = 10): TidyNode => ({ breadth, children: [] })
+const branch = (...children: TidyNode[]): TidyNode => ({ breadth: 10, children })
+
+// Collect nodes per layer (depth), in order
+const layers = (root: TidyNode): TidyNode[][] => {
+  const result: TidyNode[][] = []
+  const walk = (node: TidyNode, depth: number) => {
+    if (!result[depth]) result[depth] = []
+    result[depth].push(node)
+    node.children.forEach((child) => walk(child, depth + 1))
+  }
+  walk(root, 0)
+  return result
+}
+
+describe('computeTidyCenters', () => {
+  it('should center the root on 0 and over its children', () => {
+    const root = branch(leaf(), leaf(), leaf())
+    const centers = computeTidyCenters(root, options)
+
+    expect(centers.get(root)).toBe(0)
+    expect(root.children.map((c) => centers.get(c))).toEqual([-20, 0, 20])
+  })
+
+  it('should keep nodes in a layer apart by their breadth plus the gap', () => {
+    const root = branch(branch(leaf(30), leaf()), branch(leaf(), leaf(50)), leaf(20))
+    const centers = computeTidyCenters(root, options)
+
+    for (const layer of layers(root)) {
+      for (let i = 1; i < layer.length; i++) {
+        const a = layer[i - 1]
+        const b = layer[i]
+        const gap = centers.get(b)! - b.breadth / 2 - (centers.get(a)! + a.breadth / 2)
+        expect(gap).toBeGreaterThanOrEqual(10 - 1e-9)
+      }
+    }
+  })
+
+  it('should pack a shallow subtree next to a deep one', () => {
+    // A only widens two layers down, so the leaf B can sit right next to it
+    // instead of clearing A's whole extent (5 leaves = 90)
+    const a = branch(branch(leaf(), leaf(), leaf(), leaf(), leaf()))
+    const b = leaf()
+    const root = branch(a, b)
+    const centers = computeTidyCenters(root, options)
+
+    expect(centers.get(b)! - centers.get(a)!).toBe(20)
+  })
+
+  it('should space small subtrees between large ones evenly', () => {
+    const big = () => branch(leaf(), leaf(), leaf(), leaf(), leaf())
+    const root = branch(big(), leaf(), leaf(), big())
+    const centers = computeTidyCenters(root, options)
+    const xs = root.children.map((c) => centers.get(c)!)
+
+    expect(xs[1] - xs[0]).toBeCloseTo(xs[2] - xs[1])
+    expect(xs[2] - xs[1]).toBeCloseTo(xs[3] - xs[2])
+  })
+
+  it('should be deterministic', () => {
+    const build = () => branch(branch(leaf(), leaf(25)), leaf(), branch(leaf(40)))
+    const a = build()
+    const b = build()
+    const ca = computeTidyCenters(a, options)
+    const cb = computeTidyCenters(b, options)
+
+    expect(layers(a).flat().map((n) => ca.get(n))).toEqual(
+      layers(b).flat().map((n) => cb.get(n))
+    )
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Tree Diff Tests
+ *
+ * Tests for matching nodes between two versions of a map and for the
+ * overlay shown in compare mode.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseTextToTree } from '@/lib/mindmap-parser'
+import {
+  buildDiffOverlay,
+  diffTrees,
+  summarizeDiff,
+  textSimilarity,
+  type NodeChange,
+} from '@/lib/tree-diff'
+import type { MindmapNode } from '@/schemas'
+
+const diffTexts = (before: string, after: string) => diffTrees(parseTextToTree(before), parseTextToTree(after))
+
+// "type: text" of each change (renames as "old → new")
+function describeChanges(before: string, after: string): string[] {
+  return diffTexts(before, after).changes.map(({ type, before: old, after: node }) =>
+    type === 'renamed' ? `${type}: ${old!.text} → ${node!.text}` : `${type}: ${(node ?? old)!.text}`
+  )
+}
+
+function overlayTexts(node: MindmapNode, changes: Map<string, { change: NodeChange }>, depth = 0): string[] {
+  const change = changes.get(node.id)?.change
+  return [
+    `${'  '.repeat(depth)}${node.text}${change ? ` [${change}]` : ''}`,
+    ...node.children.flatMap((child) => overlayTexts(child, changes, depth + 1)),
+  ]
+}
+
+describe('diffTrees', () => {
+  it('should find nothing between equal trees', () => {
+    expect(describeChanges('Root\n  A\n    B\n  C', 'Root\n  A\n    B\n  C')).toEqual([])
+  })
+
+  it('should find added and removed nodes', () => {
+    expect(describeChanges('Root\n  A\n    A1\n  B', 'Root\n  B\n  C')).toEqual([
+      'removed: A',
+      'removed: A1',
+      'added: C',
+    ])
+  })
+
+  it('should find renamed nodes', () => {
+    // One node replaced in place, and a similar text among several
+    expect(describeChanges('Root\n  Launch\n    Ads', 'Root\n  Release\n    Ads')).toEqual([
+      'renamed: Launch → Release',
+    ])
+    expect(describeChanges('Root\n  Market research\n  Hiring', 'Root\n  Budget\n  Market research 2024')).toEqual([
+      'removed: Hiring',
+      'added: Budget',
+      'renamed: Market research → Market research 2024',
+    ])
+  })
+
+  it('should find moved nodes with their subtree', () => {
+    expect(describeChanges('Root\n  A\n    X\n      X1\n  B', 'Root\n  A\n  B\n    X\n      X1')).toEqual([
+      'moved: X',
+    ])
+  })
+
+  it('should keep children of a renamed node matched', () => {
+    const diff = diffTexts('Root\n  Dev\n    Frontend\n    Backend', 'Root\n  Development\n    Frontend\n    Backend')
+    expect(summarizeDiff(diff)).toEqual({ added: 0, removed: 0, renamed: 1, moved: 0, reordered: 0 })
+  })
+
+  it('should mark the fewest siblings needed as reordered', () => {
+    expect(describeChanges('Root\n  A\n  B\n  C\n  D', 'Root\n  D\n  A\n  B\n  C')).toEqual([
+      'reordered: D',
+    ])
+    expect(describeChanges('Root\n  A\n  B\n  C', 'Root\n  C\n  B\n  A')).toHaveLength(2)
+  })
+
+  it('should match repeated texts in order under their parent', () => {
+    expect(describeChanges('Root\n  A\n    Notes\n  B\n    Notes', 'Root\n  A\n    Notes\n  B')).toEqual([
+      'removed: Notes',
+    ])
+  })
+})
+
+describe('buildDiffOverlay', () => {
+  it('should put removed nodes back where they were', () => {
+    const diff = diffTexts(
+      'Root\n  A\n    A1\n    A2\n  B\n  C',
+      'Root\n  A\n    A2\n  C\n    B\n  D'
+    )
+    const { tree, nodes } = buildDiffOverlay(diff)
+    expect(overlayTexts(tree, nodes)).toEqual([
+      'Root',
+      '  A',
+      '    A1 [removed]',
+      '    A2',
+      '  C',
+      '    B [moved]',
+      '  D [added]',
+    ])
+  })
+
+  it('should keep ghost IDs apart from new IDs', () => {
+    const { tree, nodes } = buildDiffOverlay(diffTexts('Root\n  Old', 'Root\n  New\n  Other'))
+    const ids = tree.children.map((child) => child.id)
+    expect(new Set(ids).size).toBe(ids.length)
+    expect([...nodes.values()].map((node) => node.change).sort()).toEqual(['added', 'added', 'removed'])
+  })
+
+  it('should show renames with their old text', () => {
+    const diff = diffTexts('Root\n  A\n  Plan', 'Root\n  Plans\n  A')
+    const { tree, nodes } = buildDiffOverlay(diff)
+    expect(nodes.get(tree.children.find((child) => child.text === 'Plans')!.id)).toEqual({
+      change: 'renamed',
+      previousText: 'Plan',
+    })
+  })
+})
+
+describe('textSimilarity', () => {
+  it('should score shared character pairs', () => {
+    expect(textSimilarity('Night', 'night')).toBe(1)
+    expect(textSimilarity('Plan', 'Plans')).toBeGreaterThan(0.5)
+    expect(textSimilarity('Plan', 'Budget')).toBe(0)
+    expect(textSimilarity('A', 'B')).toBe(0)
+  })
+})
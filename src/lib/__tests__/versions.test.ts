@@ -0,0 +1,113 @@
+/**
+ * Version History Tests
+ *
+ * Tests for recording, listing and pruning mindmap versions.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  AUTO_VERSION_INTERVAL_MS,
+  countDocumentNodes,
+  forkVersion,
+  getPrunableVersions,
+  isAutoVersionDue,
+  isSameVersion,
+  listVersions,
+  toVersion,
+  versionToSnapshot,
+} from '@/lib/versions'
+import type { MindmapVersionEntity } from '@/db'
+
+function version(id: number, nodeCount: number, overrides: Partial<MindmapVersionEntity> = {}): MindmapVersionEntity {
+  return {
+    id,
+    mindmap_id: 1,
+    title: 'Plan',
+    content: 'Root',
+    node_count: nodeCount,
+    created_at: new Date(Date.UTC(2024, 0, id)).toISOString(),
+    ...overrides,
+  }
+}
+
+describe('toVersion', () => {
+  it('should snapshot a saved document with its node count', () => {
+    const doc = {
+      id: 1,
+      title: 'Plan',
+      content: '# Plan\n\n## Build\n\n## Ship',
+      format: 'markdown' as const,
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-05T00:00:00.000Z',
+    }
+    expect(toVersion(doc, '  Beta  ')).toEqual({
+      mindmap_id: 1,
+      title: 'Plan',
+      content: doc.content,
+      format: 'markdown',
+      layout: undefined,
+      node_count: 3,
+      name: 'Beta',
+      created_at: '2024-01-05T00:00:00.000Z',
+    })
+    expect(toVersion(doc, ' ').name).toBeUndefined()
+  })
+
+  it('should count nodes in the document format', () => {
+    expect(countDocumentNodes('Root\n  Child')).toBe(2)
+    expect(countDocumentNodes('mindmap\n  root((Plan))\n    A\n    B', 'mermaid')).toBe(3)
+  })
+})
+
+describe('isSameVersion', () => {
+  it('should compare the restorable parts of the document', () => {
+    const v = version(1, 1)
+    expect(isSameVersion(v, versionToSnapshot(v))).toBe(true)
+    expect(isSameVersion(v, { ...versionToSnapshot(v), layout: 'radial' })).toBe(false)
+    expect(isSameVersion(v, { ...versionToSnapshot(v), title: 'Other' })).toBe(false)
+  })
+})
+
+describe('isAutoVersionDue', () => {
+  it('should record the first version and then one per interval', () => {
+    const latest = version(1, 1)
+    const after = (ms: number) => new Date(Date.parse(latest.created_at) + ms).toISOString()
+    expect(isAutoVersionDue(undefined, after(0))).toBe(true)
+    expect(isAutoVersionDue(latest, after(AUTO_VERSION_INTERVAL_MS - 1))).toBe(false)
+    expect(isAutoVersionDue(latest, after(AUTO_VERSION_INTERVAL_MS))).toBe(true)
+  })
+})
+
+describe('listVersions', () => {
+  it('should list newest first with node count changes', () => {
+    const items = listVersions([version(1, 3), version(3, 4), version(2, 6)])
+    expect(items.map((item) => [item.version.id, item.delta])).toEqual([
+      [3, -2],
+      [2, 3],
+      [1, undefined],
+    ])
+  })
+})
+
+describe('getPrunableVersions', () => {
+  it('should drop the oldest automatic versions beyond the limit', () => {
+    const versions = [
+      version(1, 1, { name: 'Kickoff' }),
+      version(2, 1),
+      version(3, 1),
+      version(4, 1),
+      version(5, 1),
+    ]
+    expect(getPrunableVersions(versions, 2).sort()).toEqual([2, 3])
+    expect(getPrunableVersions(versions, 10)).toEqual([])
+  })
+})
+
+describe('forkVersion', () => {
+  it('should start a new document from a version', () => {
+    const doc = forkVersion(version(1, 1, { layout: 'radial' }), 'Plan (copy)')
+    expect(doc).toMatchObject({ title: 'Plan (copy)', content: 'Root', layout: 'radial' })
+    expect(doc.id).toBeUndefined()
+    expect(doc.created_at).toBe(doc.updated_at)
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * XMind Format Tests
+ *
+ * Tests for reading XMind workbooks and the ZIP reader underneath.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseXMind, parseXMindJson, parseXMindXml } from '@/lib/formats/xmind'
+import { readZip, readZipText } from '@/lib/zip'
+import { parseTextToTree, treeToText } from '@/lib/mindmap-parser'
+
+const encoder = new TextEncoder()
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data as BodyInit).body!.pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Build a ZIP archive (CRCs are left at 0; the reader does not check them)
+async function createZip(files: Record<string, string>, deflate = false): Promise<Uint8Array> {
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name)
+    const raw = encoder.encode(content)
+    const data = deflate ? await deflateRaw(raw) : raw
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true)
+    lv.setUint16(8, deflate ? 8 : 0, true)
+    lv.setUint32(18, data.length, true)
+    lv.setUint32(22, raw.length, true)
+    lv.setUint16(26, nameBytes.length, true)
+    local.set(nameBytes, 30)
+    local.set(data, 30 + nameBytes.length)
+
+    const central = new Uint8Array(46 + nameBytes.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, 0x02014b50, true)
+    cv.setUint16(8, 0x800, true)
+    cv.setUint16(10, deflate ? 8 : 0, true)
+    cv.setUint32(20, data.length, true)
+    cv.setUint32(24, raw.length, true)
+    cv.setUint16(28, nameBytes.length, true)
+    cv.setUint32(42, offset, true)
+    central.set(nameBytes, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+
+  const centralSize = centrals.reduce((total, c) => total + c.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true)
+  ev.setUint16(8, centrals.length, true)
+  ev.setUint16(10, centrals.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  const parts = [...locals, ...centrals, end]
+  const zip = new Uint8Array(parts.reduce((total, p) => total + p.length, 0))
+  let position = 0
+  for (const part of parts) {
+    zip.set(part, position)
+    position += part.length
+  }
+  return zip
+}
+
+const contentJson = JSON.stringify([
+  {
+    id: 's1',
+    title: 'Plan',
+    rootTopic: {
+      id: 't1',
+      title: 'Launch',
+      children: {
+        attached: [
+          {
+            id: 't2',
+            title: 'Marketing',
+            branch: 'folded',
+            labels: ['q3'],
+            markers: [{ markerId: 'priority-1' }],
+            notes: { plain: { content: 'Budget\napproved' } },
+            children: { attached: [{ id: 't3', title: 'Ads' }] },
+          },
+          { id: 't4', title: 'Docs', href: 'https://example.com' },
+        ],
+        detached: [{ id: 't5', title: 'Floating' }],
+      },
+    },
+    relationships: [{ end1Id: 't4', end2Id: 't2' }],
+  },
+  { id: 's2', title: 'Second', rootTopic: { id: 'u1', title: 'Other' } },
+])
+
+const contentXml = `<?xml version="1.0" encoding="UTF-8"?>
+<xmap-content xmlns="urn:xmind:xmap:xmlns:content:2.0" xmlns:xlink="http://www.w3.org/1999/xlink" version="2.0">
+  <sheet id="s1">
+    <topic id="t1">
+      <title>Launch</title>
+      <children>
+        <topics type="attached">
+          <topic id="t2" branch="folded">
+            <title>Marketing</title>
+            <notes><plain>Budget
+approved</plain></notes>
+            <labels><label>q3</label></labels>
+            <marker-refs><marker-ref marker-id="priority-1"/></marker-refs>
+            <children><topics type="attached"><topic id="t3"><title>Ads</title></topic></topics></children>
+          </topic>
+          <topic id="t4" xlink:href="https://example.com"><title>Docs</title></topic>
+        </topics>
+        <topics type="detached"><topic id="t5"><title>Floating</title></topic></topics>
+      </children>
+    </topic>
+    <title>Plan</title>
+    <relationships><relationship end1="t4" end2="t2"/></relationships>
+  </sheet>
+</xmap-content>`
+
+describe('readZip', () => {
+  it('should read stored and deflated entries', async () => {
+    for (const deflate of [false, true]) {
+      const entries = readZip(await createZip({ 'a.txt': 'Hello', 'dir/b.txt': '안녕' }, deflate))
+
+      expect([...entries.keys()]).toEqual(['a.txt', 'dir/b.txt'])
+      expect(await readZipText(entries.get('dir/b.txt')!)).toBe('안녕')
+    }
+  })
+
+  it('should reject data that is not a ZIP archive', () => {
+    expect(() => readZip(encoder.encode('not a zip file at all, just text'))).toThrow()
+  })
+})
+
+describe('parseXMindJson', () => {
+  it('should turn every sheet into a tree', () => {
+    const sheets = parseXMindJson(contentJson)
+
+    expect(sheets.map((s) => s.title)).toEqual(['Plan', 'Second'])
+    expect(sheets[0].tree.children.map((c) => c.text)).toEqual(['Marketing', 'Docs', 'Floating'])
+  })
+
+  it('should keep notes, labels, markers, links and folding', () => {
+    const [marketing, docs] = parseXMindJson(contentJson)[0].tree.children
+
+    expect(marketing).toMatchObject({
+      collapsed: true,
+      note: 'Budget\napproved',
+      labels: ['q3'],
+      markers: ['priority-1'],
+    })
+    expect(docs).toMatchObject({ link: 'https://example.com', arrows: ['Marketing'] })
+  })
+
+  it('should survive the outline text round trip', () => {
+    const { tree } = parseXMindJson(contentJson)[0]
+    expect(parseTextToTree(treeToText(tree))).toEqual(tree)
+  })
+})
+
+describe('parseXMindXml', () => {
+  it('should read legacy workbooks like content.json', () => {
+    const [fromXml] = parseXMindXml(contentXml)
+    const [fromJson] = parseXMindJson(contentJson)
+
+    expect(fromXml).toEqual(fromJson)
+  })
+})
+
+describe('parseXMind', () => {
+  it('should prefer content.json and fall back to content.xml', async () => {
+    const zen = await parseXMind(
+      await createZip({ 'content.xml': '<broken', 'content.json': contentJson }, true)
+    )
+    const legacy = await parseXMind(await createZip({ 'content.xml': contentXml }))
+
+    expect(zen).toHaveLength(2)
+    expect(legacy[0].tree.text).toBe('Launch')
+  })
+
+  it('should reject archives without content', async () => {
+    await expect(parseXMind(await createZip({ 'other.txt': 'x' }))).rejects.toThrow()
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * Compression Helpers
+ *
+ * Raw DEFLATE (RFC 1951, no zlib or gzip header) through the platform
+ * `CompressionStream` / `DecompressionStream`, so no library is needed.
+ */
+
+/**
+ * Compress bytes with raw DEFLATE
+ */
+export function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new CompressionStream('deflate-raw'))
+}
+
+/**
+ * Decompress raw DEFLATE data
+ *
+ * Rejects when the data is not valid DEFLATE.
+ */
+export function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new DecompressionStream('deflate-raw'))
+}
+
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(data.slice())
+      controller.close()
+    },
+  }).pipeThrough(stream)
+
+  const chunks: Uint8Array[] = []
+  const reader = output.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+  }
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let position = 0
+  for (const chunk of chunks) {
+    result.set(chunk, position)
+    position += chunk.length
+  }
+  return result
+}
@@ -0,0 +1,26 @@
+/**
+ * File Download Helpers
+ *
+ * Saves generated content (exports) as a file in the browser.
+ */
+
+/**
+ * Build a file name from a document title
+ */
+export function toFileName(title: string, extension: string): string {
+  const base = title.replace(/[^a-z0-9]/gi, '_') || 'mindmap'
+  return `${base}.${extension}`
+}
+
+/**
+ * Trigger a browser download of the given content
+ */
+export function downloadFile(content: BlobPart, fileName: string, type: string): void {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,98 @@
+/**
+ * Drafts
+ *
+ * Unsaved edits are written to the `drafts` table shortly after each
+ * change, so a reload or crash loses at most a second of work. A draft is
+ * dropped once its document is saved; drafts that survive are offered for
+ * recovery on the next start, if they are newer than the stored document.
+ */
+
+import type { DraftEntity, MindmapEntity } from '@/db'
+import type { MindmapDocument } from '@/stores'
+
+// Delay after the last edit before the draft is written
+export const DRAFT_DELAY_MS = 1000
+// Delay after the last edit before a saved document is saved again
+export const AUTOSAVE_DELAY_MS = 3000
+
+// Draft key of a document that was never saved
+const NEW_DRAFT_KEY = 'new'
+
+export interface RecoverableDraft {
+  draft: DraftEntity
+  // Stored version of the document, if it still exists
+  stored?: MindmapEntity
+}
+
+/**
+ * Draft key of a document
+ */
+export function getDraftKey(doc: Pick<MindmapDocument, 'id'>): string {
+  return doc.id === undefined ? NEW_DRAFT_KEY : `mindmap:${doc.id}`
+}
+
+/**
+ * Draft holding a document's current state
+ */
+export function toDraft(doc: MindmapDocument): DraftEntity {
+  return {
+    key: getDraftKey(doc),
+    document_id: doc.id,
+    title: doc.title,
+    content: doc.content,
+    format: doc.format,
+    layout: doc.layout,
+    created_at: doc.created_at,
+    updated_at: doc.updated_at,
+  }
+}
+
+/**
+ * Whether a draft has edits the stored document lacks
+ *
+ * Drafts of new or deleted documents always do.
+ */
+export function isDraftNewer(draft: DraftEntity, stored?: MindmapEntity): boolean {
+  if (draft.document_id === undefined || !stored) return true
+  return Date.parse(draft.updated_at) > Date.parse(stored.updated_at)
+}
+
+/**
+ * Split drafts into those worth recovering (newest first) and stale ones
+ */
+export function sortDrafts(
+  drafts: DraftEntity[],
+  documents: MindmapEntity[]
+): { recoverable: RecoverableDraft[]; stale: DraftEntity[] } {
+  const recoverable: RecoverableDraft[] = []
+  const stale: DraftEntity[] = []
+
+  for (const draft of drafts) {
+    const stored = documents.find((doc) => doc.id === draft.document_id)
+    if (isDraftNewer(draft, stored)) {
+      recoverable.push({ draft, stored })
+    } else {
+      stale.push(draft)
+    }
+  }
+
+  recoverable.sort((a, b) => Date.parse(b.draft.updated_at) - Date.parse(a.draft.updated_at))
+  return { recoverable, stale }
+}
+
+/**
+ * Document to open when a draft is restored
+ *
+ * Drafts of deleted documents come back as new documents.
+ */
+export function draftToDocument({ draft, stored }: RecoverableDraft): MindmapDocument {
+  return {
+    id: stored ? draft.document_id : undefined,
+    title: draft.title,
+    content: draft.content,
+    format: draft.format,
+    layout: draft.layout,
+    created_at: draft.created_at,
+    updated_at: draft.updated_at,
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Embed Messages
+ *
+ * `postMessage` protocol between the `/embed` viewer and the page hosting
+ * its iframe. Every message is a command or event object (see
+ * `EmbedCommandSchema` / `EmbedEventSchema`) tagged with
+ * `source: 'mindmap-embed'`:
+ *
+ *   iframe.contentWindow.postMessage(
+ *     { source: 'mindmap-embed', type: 'focus', node: 'Goals' },
+ *     'https://maps.example.com'
+ *   )
+ *
+ * The API is opt-in: the embed only accepts commands from, and only sends
+ * events to, the origin named by the `origin` query parameter. Maps loaded
+ * by ID come from the visitor's own storage, so for them the API is only
+ * offered to the app's own origin.
+ */
+
+import { EmbedCommandSchema, type EmbedCommand, type EmbedEvent } from '@/schemas'
+
+// Tag that tells embed messages apart from other postMessage traffic
+export const EMBED_MESSAGE_SOURCE = 'mindmap-embed'
+
+export type EmbedCommandResult = { command: EmbedCommand } | { error: string }
+
+/**
+ * Resolve the origin the embed exchanges messages with (null: API off)
+ *
+ * `localContent` is set when the map is loaded by ID rather than carried
+ * in the URL; `appOrigin` is the origin the embed itself is served from.
+ */
+export function getHostOrigin(
+  origin: string | undefined,
+  { localContent, appOrigin }: { localContent: boolean; appOrigin: string }
+): string | null {
+  if (!origin) return null
+  if (localContent && origin !== appOrigin) return null
+  return origin
+}
+
+/**
+ * Read a host command from a message event
+ *
+ * Returns null for messages not meant for the embed (other origins or
+ * sources), and an error for invalid commands from the host.
+ */
+export function readEmbedCommand(
+  event: Pick<MessageEvent, 'data' | 'origin'>,
+  hostOrigin: string | null
+): EmbedCommandResult | null {
+  if (!hostOrigin || event.origin !== hostOrigin) return null
+
+  const data: unknown = event.data
+  if (typeof data !== 'object' || data === null) return null
+  if ((data as { source?: unknown }).source !== EMBED_MESSAGE_SOURCE) return null
+
+  const result = EmbedCommandSchema.safeParse(data)
+  if (!result.success) {
+    return { error: result.error.issues.map((issue) => issue.message).join('; ') }
+  }
+  return { command: result.data }
+}
+
+/**
+ * Send an event to the host page
+ */
+export function postEmbedEvent(
+  target: Pick<Window, 'postMessage'>,
+  hostOrigin: string,
+  event: EmbedEvent
+): void {
+  target.postMessage({ source: EMBED_MESSAGE_SOURCE, ...event }, hostOrigin)
+}
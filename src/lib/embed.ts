@@ -0,0 +1,233 @@
+/**
+ * Embed Options
+ *
+ * Query parameters that let a host page configure the `/embed` viewer:
+ *
+ * | Param         | Values                    | Default        |
+ * |---------------|---------------------------|----------------|
+ * | `theme`       | `light`, `dark`           | `light`        |
+ * | `layout`      | any layout mode           | document's own |
+ * | `zoom`        | `fit` or a scale (0.1-3)  | 1              |
+ * | `title`       | `true`, `false`           | `true`         |
+ * | `footer`      | `true`, `false`           | `true`         |
+ * | `interactive` | `true`, `false`           | `true`         |
+ * | `focus`       | node ID or node text      | none           |
+ * | `depth`       | levels shown below root   | all            |
+ * | `origin`      | host page origin          | none (no API)  |
+ *
+ * Non-interactive embeds cannot be panned, zoomed or folded and show no
+ * controls. Invalid values are ignored. `origin` is the only origin the
+ * embed exchanges messages with (see `lib/embed-messages`).
+ */
+
+import {
+  EmbedThemeSchema,
+  LayoutModeSchema,
+  type EmbedTheme,
+  type LayoutMode,
+  type MindmapNode,
+} from '@/schemas'
+
+export const EMBED_THEMES: readonly EmbedTheme[] = EmbedThemeSchema.options
+
+// Zoom choices offered in the share dialog
+export const EMBED_ZOOMS: readonly (number | 'fit')[] = ['fit', 0.5, 0.75, 1, 1.5, 2]
+
+export interface EmbedOptions {
+  theme?: EmbedTheme
+  layout?: LayoutMode
+  zoom?: number | 'fit'
+  title?: boolean
+  footer?: boolean
+  interactive?: boolean
+  focus?: string
+  depth?: number
+  origin?: string
+}
+
+const MIN_ZOOM = 0.1
+const MAX_ZOOM = 3
+
+/**
+ * Read embed options from route search params
+ *
+ * Values may arrive as strings or already parsed (`true`, `1.5`).
+ */
+export function parseEmbedOptions(search: Record<string, unknown>): EmbedOptions {
+  const options: EmbedOptions = {}
+
+  const theme = EmbedThemeSchema.safeParse(search.theme)
+  if (theme.success) options.theme = theme.data
+
+  const layout = LayoutModeSchema.safeParse(search.layout)
+  if (layout.success) options.layout = layout.data
+
+  if (search.zoom === 'fit') {
+    options.zoom = 'fit'
+  } else {
+    const zoom = toNumber(search.zoom)
+    if (zoom !== undefined && zoom > 0) {
+      options.zoom = Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM)
+    }
+  }
+
+  for (const key of ['title', 'footer', 'interactive'] as const) {
+    const value = toBoolean(search[key])
+    if (value !== undefined) options[key] = value
+  }
+
+  if ((typeof search.focus === 'string' || typeof search.focus === 'number') && search.focus !== '') {
+    options.focus = String(search.focus)
+  }
+
+  const depth = toNumber(search.depth)
+  if (depth !== undefined && Number.isInteger(depth) && depth >= 0) {
+    options.depth = depth
+  }
+
+  if (typeof search.origin === 'string') {
+    const origin = toOrigin(search.origin)
+    if (origin) options.origin = origin
+  }
+
+  return options
+}
+
+/**
+ * Add embed options to a viewer URL as query parameters
+ *
+ * Defaults are left out to keep the URL short; the fragment is kept. The
+ * host origin is reduced to scheme, host and port, and left out if invalid.
+ */
+export function buildEmbedUrl(base: string, options: EmbedOptions): string {
+  const url = new URL(base)
+  const set = (key: string, value: string | number | boolean | undefined, fallback?: unknown) => {
+    if (value === undefined || value === fallback) {
+      url.searchParams.delete(key)
+    } else {
+      url.searchParams.set(key, String(value))
+    }
+  }
+
+  set('theme', options.theme, 'light')
+  set('layout', options.layout)
+  set('zoom', options.zoom, 1)
+  set('title', options.title, true)
+  set('footer', options.footer, true)
+  set('interactive', options.interactive, true)
+  set('focus', options.focus || undefined)
+  set('depth', options.depth)
+  set('origin', (options.origin && toOrigin(options.origin)) || undefined)
+
+  return url.toString()
+}
+
+/**
+ * HTML snippet that embeds a viewer URL
+ */
+export function buildIframeSnippet(url: string, height: number = 400): string {
+  return `<iframe src="${url.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}" width="100%" height="${height}" frameborder="0" style="border: 1px solid #e5e7eb; border-radius: 8px;"></iframe>`
+}
+
+/**
+ * Find the node to focus, by ID or else by text (first in document order)
+ */
+export function findFocusNode(tree: MindmapNode, focus: string): MindmapNode | null {
+  const byText: MindmapNode[] = []
+  const visit = (node: MindmapNode): MindmapNode | null => {
+    if (node.id === focus) return node
+    if (node.text === focus) byText.push(node)
+    for (const child of node.children) {
+      const found = visit(child)
+      if (found) return found
+    }
+    return null
+  }
+  return visit(tree) ?? byText[0] ?? null
+}
+
+/**
+ * Apply depth and focus options to a tree
+ *
+ * Nodes `depth` levels below the root are folded; the focused node's
+ * ancestors are unfolded so it stays visible.
+ */
+export function applyEmbedView(tree: MindmapNode, options: EmbedOptions): MindmapNode {
+  const focusNode = options.focus ? findFocusNode(tree, options.focus) : null
+
+  const visit = (node: MindmapNode, level: number): { node: MindmapNode; hasFocus: boolean } => {
+    const children = node.children.map((child) => visit(child, level + 1))
+    const containsFocus = children.some((child) => child.hasFocus)
+
+    let collapsed = node.collapsed
+    if (options.depth !== undefined && level >= options.depth && node.children.length > 0) {
+      collapsed = true
+    }
+    if (containsFocus) collapsed = false
+
+    const result: MindmapNode = { ...node, children: children.map((child) => child.node) }
+    if (collapsed) {
+      result.collapsed = true
+    } else {
+      delete result.collapsed
+    }
+    return { node: result, hasFocus: node === focusNode || containsFocus }
+  }
+
+  return visit(tree, 0).node
+}
+
+/**
+ * Fold or unfold one node, or every node below the root
+ *
+ * Unfolding a node also unfolds its ancestors so it becomes visible.
+ */
+export function setEmbedFolding(
+  tree: MindmapNode,
+  collapsed: boolean,
+  nodeId?: string
+): MindmapNode {
+  if (nodeId === undefined) {
+    return collapsed ? applyEmbedView(tree, { depth: 1 }) : unfoldAll(tree)
+  }
+
+  const visit = (node: MindmapNode): MindmapNode => {
+    const children = node.children.map(visit)
+    if (node.id !== nodeId || node.children.length === 0) return { ...node, children }
+    return { ...node, children, collapsed }
+  }
+  const result = visit(tree)
+  return collapsed ? result : applyEmbedView(result, { focus: nodeId })
+}
+
+/**
+ * Origin of a URL (`https://host:port`), or null for invalid or opaque URLs
+ */
+export function toOrigin(url: string): string | null {
+  try {
+    const { origin } = new URL(url)
+    return origin === 'null' ? null : origin
+  } catch {
+    return null
+  }
+}
+
+function unfoldAll(node: MindmapNode): MindmapNode {
+  const result: MindmapNode = { ...node, children: node.children.map(unfoldAll) }
+  delete result.collapsed
+  return result
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number =
+    typeof value === 'number' ? value
+    : typeof value === 'string' && value.trim() !== '' ? Number(value)
+    : NaN
+  return Number.isFinite(number) ? number : undefined
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (value === true || value === 'true' || value === '1' || value === 1) return true
+  if (value === false || value === 'false' || value === '0' || value === 0) return false
+  return undefined
+}
@@ -0,0 +1,210 @@
+/**
+ * FreeMind Format
+ *
+ * Reads and writes FreeMind / Freeplane `.mm` maps.
+ *
+ * Mapping:
+ * - `<node TEXT>` (or rich `NODE` content) becomes a node
+ * - `FOLDED="true"` becomes collapsed
+ * - `COLOR` becomes the text color, `LINK` the hyperlink
+ * - rich `NOTE` content becomes the note, as plain text (one line per
+ *   paragraph)
+ * - `<arrowlink DESTINATION>` becomes an arrow to the destination's text
+ *
+ * Styling that our model cannot hold (fonts, icons, clouds, edges) is
+ * dropped on import.
+ */
+
+import type { MindmapNode } from '@/schemas'
+import { assignIds } from '@/lib/mindmap-parser'
+
+// Elements that start a new line when flattening rich content
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'li', 'ul', 'ol', 'tr', 'table', 'pre', 'blockquote',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+])
+
+/**
+ * Check whether text is a FreeMind map
+ */
+export function isFreeMind(text: string): boolean {
+  return /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*<map[\s>]/i.test(text)
+}
+
+/**
+ * Parse a FreeMind map into a tree
+ *
+ * Throws when the text is not a well-formed map.
+ */
+export function parseFreeMind(text: string): MindmapNode {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  const map = doc.documentElement
+  const rootElement = map ? getChildren(map, 'node')[0] : undefined
+
+  if (doc.getElementsByTagName('parsererror').length > 0 || map.nodeName !== 'map' || !rootElement) {
+    throw new Error('Not a valid FreeMind map')
+  }
+
+  // Arrow destinations are FreeMind IDs until every node has been read
+  const textsById = new Map<string, string>()
+  const pendingArrows: { node: MindmapNode; destinations: string[] }[] = []
+
+  const readNode = (element: Element): MindmapNode => {
+    const text = toSingleLine(
+      element.getAttribute('TEXT') ?? plainText(getRichContent(element, 'NODE')) ?? ''
+    )
+    const note = plainText(getRichContent(element, 'NOTE'))
+    const color = element.getAttribute('COLOR')
+    const link = element.getAttribute('LINK')
+    const children = getChildren(element, 'node').map(readNode)
+
+    const node: MindmapNode = {
+      id: '',
+      text,
+      children,
+      ...(element.getAttribute('FOLDED') === 'true' && children.length > 0 && { collapsed: true }),
+      ...(note && { note }),
+      ...(color && { color }),
+      ...(link && { link }),
+    }
+
+    const id = element.getAttribute('ID')
+    if (id) textsById.set(id, text)
+
+    const destinations = getChildren(element, 'arrowlink')
+      .map((arrow) => arrow.getAttribute('DESTINATION'))
+      .filter((destination): destination is string => !!destination)
+    if (destinations.length > 0) {
+      pendingArrows.push({ node, destinations })
+    }
+
+    return node
+  }
+
+  const root = readNode(rootElement)
+
+  for (const { node, destinations } of pendingArrows) {
+    const arrows = destinations
+      .map((destination) => textsById.get(destination))
+      .filter((target): target is string => target !== undefined)
+    if (arrows.length > 0) node.arrows = arrows
+  }
+
+  return assignIds(root)
+}
+
+/**
+ * Convert a tree to a FreeMind map
+ *
+ * Arrows point to the first node (in document order) with the target text;
+ * arrows to missing nodes are dropped.
+ */
+export function treeToFreeMind(root: MindmapNode): string {
+  // Number nodes in document order and find arrow destinations by text
+  const ids = new Map<MindmapNode, string>()
+  const idsByText = new Map<string, string>()
+  const number = (node: MindmapNode) => {
+    const id = `ID_${ids.size + 1}`
+    ids.set(node, id)
+    if (!idsByText.has(node.text)) idsByText.set(node.text, id)
+    node.children.forEach(number)
+  }
+  number(root)
+
+  const writeNode = (node: MindmapNode): string[] => {
+    const attributes = [`ID="${ids.get(node)}"`, `TEXT="${escapeXml(node.text)}"`]
+    if (node.collapsed && node.children.length > 0) attributes.push('FOLDED="true"')
+    if (node.color) attributes.push(`COLOR="${escapeXml(node.color)}"`)
+    if (node.link) attributes.push(`LINK="${escapeXml(node.link)}"`)
+
+    const content: string[] = []
+    if (node.note) {
+      const paragraphs = node.note.split('\n').map((line) => `<p>${escapeXml(line)}</p>`)
+      content.push(
+        `<richcontent TYPE="NOTE"><html><head></head><body>${paragraphs.join('')}</body></html></richcontent>`
+      )
+    }
+    for (const arrow of node.arrows ?? []) {
+      const destination = idsByText.get(arrow)
+      if (destination) {
+        content.push(`<arrowlink DESTINATION="${destination}" ENDARROW="Default" STARTARROW="None"/>`)
+      }
+    }
+    node.children.forEach((child) => content.push(...writeNode(child)))
+
+    if (content.length === 0) {
+      return [`<node ${attributes.join(' ')}/>`]
+    }
+    return [`<node ${attributes.join(' ')}>`, ...content, '</node>']
+  }
+
+  return [
+    '<map version="1.0.1">',
+    '<!-- To view this file, download free mind mapping software FreeMind from http://freemind.sourceforge.net -->',
+    ...writeNode(root),
+    '</map>',
+  ].join('\n')
+}
+
+function getChildren(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter((child) => child.nodeName === name)
+}
+
+function getRichContent(element: Element, type: string): Element | null {
+  return getChildren(element, 'richcontent').find(
+    (child) => child.getAttribute('TYPE') === type
+  ) ?? null
+}
+
+/**
+ * Flatten rich (HTML) content to plain text, one line per block
+ */
+function plainText(element: Element | null): string | null {
+  if (!element) return null
+
+  const lines: string[] = []
+  let current = ''
+  const flush = () => {
+    const line = current.replace(/\s+/g, ' ').trim()
+    if (line) lines.push(line)
+    current = ''
+  }
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      current += node.textContent ?? ''
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+
+    const name = (node as Element).localName.toLowerCase()
+    if (name === 'head') return
+    if (name === 'br') {
+      flush()
+      return
+    }
+
+    const isBlock = BLOCK_ELEMENTS.has(name)
+    if (isBlock) flush()
+    node.childNodes.forEach(walk)
+    if (isBlock) flush()
+  }
+
+  walk(element)
+  flush()
+  return lines.join('\n')
+}
+
+// Node text is a single line
+function toSingleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+}
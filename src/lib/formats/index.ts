@@ -0,0 +1,171 @@
+/**
+ * Document Formats
+ *
+ * Entry point for parsing and writing document content in any supported
+ * syntax. `outline` is our own two-space indentation format.
+ * Markdown documents can be exported as headings or as a bullet list
+ * (`markdownList`).
+ *
+ * Document formats can be edited as text. File-only formats (OPML,
+ * FreeMind) are converted to the outline format on import and generated on
+ * export. XMind workbooks are import-only and hold one document per sheet.
+ */
+
+import { DocumentFormatSchema, type DocumentFormat, type MindmapNode } from '@/schemas'
+import {
+  parseTextWithDiagnostics,
+  treeToText,
+  type ParseOptions,
+  type ParseResult,
+} from '@/lib/mindmap-parser'
+import { isMermaidMindmap, parseMermaidWithDiagnostics, treeToMermaid } from './mermaid'
+import { parseMarkdownWithDiagnostics, treeToMarkdown } from './markdown'
+import { isOpml, parseOpml, treeToOpml } from './opml'
+import { isFreeMind, parseFreeMind, treeToFreeMind } from './freemind'
+
+export { isMermaidMindmap, parseMermaid, parseMermaidWithDiagnostics, treeToMermaid } from './mermaid'
+export {
+  parseMarkdown,
+  parseMarkdownWithDiagnostics,
+  treeToMarkdown,
+  type MarkdownStyle,
+} from './markdown'
+export { isOpml, parseOpml, treeToOpml, type OpmlDocument } from './opml'
+export { isFreeMind, parseFreeMind, treeToFreeMind } from './freemind'
+export { parseXMind, parseXMindJson, parseXMindXml, type XMindSheet } from './xmind'
+
+export const DOCUMENT_FORMATS = DocumentFormatSchema.options
+
+export type ExportFormat = DocumentFormat | 'markdownList' | 'opml' | 'freemind'
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = [
+  ...DOCUMENT_FORMATS,
+  'markdownList',
+  'opml',
+  'freemind',
+]
+
+// File extension and MIME type used when exporting each format
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  outline: { extension: 'txt', mimeType: 'text/plain' },
+  mermaid: { extension: 'mmd', mimeType: 'text/plain' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  markdownList: { extension: 'md', mimeType: 'text/markdown' },
+  opml: { extension: 'opml', mimeType: 'text/x-opml' },
+  freemind: { extension: 'mm', mimeType: 'application/x-freemind' },
+}
+
+// File types offered by the import picker
+export const IMPORT_FILE_ACCEPT = '.txt,.md,.markdown,.mmd,.mermaid,.opml,.mm,.xmind'
+
+export interface ImportedDocument {
+  // Title stored in the file, if it has one
+  title?: string
+  content: string
+  format: DocumentFormat
+}
+
+/**
+ * Parse document content written in the given format
+ */
+export function parseDocument(
+  content: string,
+  format: DocumentFormat = 'outline',
+  options: ParseOptions = {}
+): ParseResult {
+  switch (format) {
+    case 'mermaid':
+      return parseMermaidWithDiagnostics(content, options)
+    case 'markdown':
+      return parseMarkdownWithDiagnostics(content, options)
+    case 'outline':
+    default:
+      return parseTextWithDiagnostics(content, options)
+  }
+}
+
+/**
+ * Write a tree in the given format
+ */
+export function serializeTree(tree: MindmapNode, format: DocumentFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return treeToMermaid(tree)
+    case 'markdown':
+      return treeToMarkdown(tree, 'headings')
+    case 'outline':
+    default:
+      return treeToText(tree)
+  }
+}
+
+/**
+ * Rewrite content from one format to another
+ *
+ * Content is returned untouched when the formats match.
+ */
+export function convertDocument(
+  content: string,
+  from: DocumentFormat,
+  to: DocumentFormat
+): string {
+  if (from === to) return content
+  return serializeTree(parseDocument(content, from).tree, to)
+}
+
+/**
+ * Guess the format of pasted or imported text
+ */
+export function detectFormat(text: string): DocumentFormat {
+  return isMermaidMindmap(text) ? 'mermaid' : 'outline'
+}
+
+/**
+ * Whether the format stores collapsed state in the text itself
+ */
+export function canStoreCollapsed(format: DocumentFormat): boolean {
+  return format === 'outline'
+}
+
+/**
+ * Write a tree in any export format
+ */
+export function exportTree(tree: MindmapNode, target: ExportFormat, title: string): string {
+  switch (target) {
+    case 'markdownList':
+      return treeToMarkdown(tree, 'bullets')
+    case 'opml':
+      return treeToOpml(tree, title)
+    case 'freemind':
+      return treeToFreeMind(tree)
+    default:
+      return serializeTree(tree, target)
+  }
+}
+
+/**
+ * Turn the contents of an opened file into document content
+ *
+ * Throws when a file-only format (OPML, FreeMind) cannot be read.
+ */
+export function importFile(fileName: string, text: string): ImportedDocument {
+  if (/\.opml$/i.test(fileName) || isOpml(text)) {
+    const { title, tree } = parseOpml(text)
+    return { title, content: treeToText(tree), format: 'outline' }
+  }
+  if (/\.mm$/i.test(fileName) || isFreeMind(text)) {
+    const tree = parseFreeMind(text)
+    return { title: tree.text, content: treeToText(tree), format: 'outline' }
+  }
+  if (/\.(md|markdown)$/i.test(fileName) && !isMermaidMindmap(text)) {
+    return { content: text, format: 'markdown' }
+  }
+  return { content: text, format: detectFormat(text) }
+}
+
+/**
+ * Whether a file is an XMind workbook (binary, read with `parseXMind`)
+ */
+export function isXMindFile(fileName: string): boolean {
+  return /\.xmind$/i.test(fileName)
+}
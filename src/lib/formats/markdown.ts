@@ -0,0 +1,183 @@
+/**
+ * Markdown Format
+ *
+ * Reads and writes Markdown outlines: `#`–`######` headings and nested
+ * `-` / `*` / `+` / `1.` list items (mixed freely) become nodes.
+ *
+ * Example input:
+ * ```
+ * # Project
+ * ## Goals
+ * - Ship **v1**
+ *   - See [the plan](https://example.com/plan)
+ * ## Risks
+ * Budget is tight.
+ * ```
+ *
+ * - Headings nest by level; list items nest by indentation under the
+ *   heading above them
+ * - Any other text (paragraphs, quotes, code blocks) becomes the note of
+ *   the node above it; text before the first heading or item becomes the
+ *   root
+ * - Node text is kept verbatim, so inline formatting and links survive a
+ *   round trip
+ *
+ * Markdown cannot store folding, so collapsed flags are carried over from
+ * the previous parse instead.
+ */
+
+import type { MindmapNode } from '@/schemas'
+import {
+  buildTreeFromLines,
+  type OutlineLine,
+  type ParseDiagnostic,
+  type ParseOptions,
+  type ParseResult,
+} from '@/lib/mindmap-parser'
+
+export type MarkdownStyle = 'headings' | 'bullets'
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/
+const FENCE_PATTERN = /^\s*(```|~~~)/
+
+// List items always sit below headings (levels 1-6)
+const LIST_BASE_LEVEL = 100
+
+// Headings deeper than this are written as list items
+const MAX_HEADING_DEPTH = 6
+
+/**
+ * Parse Markdown into a tree, with diagnostics
+ */
+export function parseMarkdownWithDiagnostics(
+  text: string,
+  options: ParseOptions = {}
+): ParseResult {
+  const diagnostics: ParseDiagnostic[] = []
+  const outlineLines: OutlineLine[] = []
+  let inFence = false
+  let pendingBlank = false
+
+  // Paragraph text goes to the note of the latest node
+  const appendNote = (line: string) => {
+    const target = outlineLines[outlineLines.length - 1]
+    const note = target.attributes?.note
+    const separator = pendingBlank ? '\n\n' : '\n'
+    target.attributes = {
+      ...target.attributes,
+      note: note === undefined ? line : `${note}${separator}${line}`,
+    }
+    pendingBlank = false
+  }
+
+  text.split('\n').forEach((line, index) => {
+    const lineNumber = index + 1
+
+    // Code blocks are kept verbatim, fences included
+    const isFence = FENCE_PATTERN.test(line)
+    if (isFence) inFence = !inFence
+    if (inFence || isFence) {
+      if (outlineLines.length > 0) appendNote(line.trimEnd())
+      return
+    }
+
+    if (line.trim() === '') {
+      pendingBlank = true
+      return
+    }
+
+    const heading = line.match(HEADING_PATTERN)
+    if (heading && heading[2] !== '') {
+      outlineLines.push({
+        text: heading[2],
+        level: heading[1].length,
+        lineNumber,
+        column: 1,
+      })
+      pendingBlank = false
+      return
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN)
+    if (item && item[2].trim() !== '') {
+      const indent = item[1].replace(/\t/g, '    ').length
+      outlineLines.push({
+        text: item[2].trim(),
+        level: LIST_BASE_LEVEL + indent,
+        lineNumber,
+        column: indent + 1,
+      })
+      pendingBlank = false
+      return
+    }
+
+    if (outlineLines.length === 0) {
+      // Leading text names the map
+      outlineLines.push({ text: line.trim(), level: 0, lineNumber, column: 1 })
+      pendingBlank = false
+      return
+    }
+
+    appendNote(line.trim())
+  })
+
+  return buildTreeFromLines(outlineLines, diagnostics, {
+    ...options,
+    keepCollapsed: true,
+    // Only list items under list items can be fixed by indenting
+    childIndent: (level, childLevel) =>
+      level >= LIST_BASE_LEVEL && childLevel >= LIST_BASE_LEVEL
+        ? level - LIST_BASE_LEVEL + 2
+        : undefined,
+  })
+}
+
+/**
+ * Parse Markdown into a tree structure
+ */
+export function parseMarkdown(text: string, options: ParseOptions = {}): MindmapNode {
+  return parseMarkdownWithDiagnostics(text, options).tree
+}
+
+/**
+ * Convert a tree to Markdown
+ *
+ * `headings` writes one heading level per depth (falling back to list
+ * items below `######`); `bullets` writes a single nested list.
+ */
+export function treeToMarkdown(root: MindmapNode, style: MarkdownStyle = 'headings'): string {
+  const blocks: string[] = []
+
+  const write = (node: MindmapNode, depth: number) => {
+    const asHeading = style === 'headings' && depth < MAX_HEADING_DEPTH
+    const noteLines = node.note?.split('\n') ?? []
+
+    if (asHeading) {
+      blocks.push(`${'#'.repeat(depth + 1)} ${node.text}`)
+      if (noteLines.length > 0) blocks.push(noteLines.join('\n'))
+    } else {
+      const listDepth = style === 'headings' ? depth - MAX_HEADING_DEPTH : depth
+      const indent = '  '.repeat(listDepth)
+      const lines = [`${indent}- ${node.text}`]
+      // Continuation lines under the item (blank lines stay empty)
+      noteLines.forEach((line) => lines.push(line ? `${indent}  ${line}` : ''))
+      appendListLines(blocks, lines)
+    }
+
+    node.children.forEach((child) => write(child, depth + 1))
+  }
+
+  write(root, 0)
+  return blocks.join('\n\n')
+}
+
+// Consecutive list items form one block (no blank lines between them)
+function appendListLines(blocks: string[], lines: string[]): void {
+  const last = blocks[blocks.length - 1]
+  if (last !== undefined && /^\s*- /.test(last.split('\n')[0])) {
+    blocks[blocks.length - 1] = `${last}\n${lines.join('\n')}`
+  } else {
+    blocks.push(lines.join('\n'))
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Mermaid Mindmap Format
+ *
+ * Reads and writes the `mindmap` diagram syntax of Mermaid.
+ *
+ * Example input:
+ * ```
+ * mindmap
+ *   root((Project))
+ *     Goals
+ *       ::icon(fa fa-flag)
+ *     id1[Tasks]
+ *       :::urgent
+ *     id2)Ideas(
+ * ```
+ *
+ * Like our own format, nesting is given by indentation, but any amount of
+ * indentation deeper than the parent makes a child. Node IDs in the source
+ * (`id1` above) only exist to attach a shape and are not kept; nodes get
+ * the same stable IDs as in the outline format.
+ */
+
+import type { MindmapNode, NodeShape } from '@/schemas'
+import {
+  buildTreeFromLines,
+  type OutlineLine,
+  type ParseDiagnostic,
+  type ParseOptions,
+  type ParseResult,
+} from '@/lib/mindmap-parser'
+
+const HEADER_PATTERN = /^mindmap\s*$/
+const ICON_PATTERN = /^::icon\((.*)\)$/
+const CLASS_PATTERN = /^:::(.*)$/
+
+// Delimiters per shape; longer delimiters first so `((` wins over `(`
+const SHAPE_DELIMITERS: { shape: NodeShape; open: string; close: string }[] = [
+  { shape: 'circle', open: '((', close: '))' },
+  { shape: 'bang', open: '))', close: '((' },
+  { shape: 'hexagon', open: '{{', close: '}}' },
+  { shape: 'rounded', open: '(', close: ')' },
+  { shape: 'cloud', open: ')', close: '(' },
+  { shape: 'square', open: '[', close: ']' },
+]
+
+// Characters that would start a shape if written in a plain node
+const DELIMITER_CHARS = /[()[\]{}]/
+
+/**
+ * Check whether text is a Mermaid mindmap diagram
+ */
+export function isMermaidMindmap(text: string): boolean {
+  const first = getSignificantLines(text)[0]
+  return first !== undefined && HEADER_PATTERN.test(first.text.trim())
+}
+
+/**
+ * Parse a Mermaid mindmap into a tree, with diagnostics
+ *
+ * Mermaid has no syntax for folding, so collapsed flags are carried over
+ * from `options.previous` instead of being read from the text.
+ */
+export function parseMermaidWithDiagnostics(
+  text: string,
+  options: ParseOptions = {}
+): ParseResult {
+  const lines = getSignificantLines(text)
+  const diagnostics: ParseDiagnostic[] = []
+  const outlineLines: OutlineLine[] = []
+
+  if (lines.length > 0 && HEADER_PATTERN.test(lines[0].text.trim())) {
+    lines.shift()
+  } else if (lines.length > 0) {
+    diagnostics.push({
+      code: 'missingHeader',
+      severity: 'warning',
+      line: lines[0].lineNumber,
+      column: 1,
+      message: 'Mermaid mindmaps start with a "mindmap" line; every line was read as a node',
+      fix: 'Add "mindmap" as the first line',
+    })
+  }
+
+  for (const { text: line, lineNumber } of lines) {
+    const content = line.trim()
+    const indent = line.length - line.trimStart().length
+
+    const icon = content.match(ICON_PATTERN)
+    const classes = content.match(CLASS_PATTERN)
+    if (icon || classes) {
+      // Decorations apply to the node on the line before
+      const target = outlineLines[outlineLines.length - 1]
+      if (!target) {
+        diagnostics.push({
+          code: 'orphanDecoration',
+          severity: 'warning',
+          line: lineNumber,
+          column: indent + 1,
+          message: `"${content}" comes before any node; ignored`,
+          fix: 'Move it below the node it belongs to',
+          params: { text: content },
+        })
+        continue
+      }
+
+      target.attributes = {
+        ...target.attributes,
+        ...(icon && { icon: icon[1].trim() }),
+        ...(classes && { classes: classes[1].trim().split(/\s+/).filter(Boolean) }),
+      }
+      continue
+    }
+
+    const { text: nodeText, shape } = parseNodeText(content)
+    outlineLines.push({
+      text: nodeText,
+      level: indent,
+      lineNumber,
+      column: indent + 1,
+      ...(shape && { attributes: { shape } }),
+    })
+  }
+
+  return buildTreeFromLines(outlineLines, diagnostics, {
+    ...options,
+    keepCollapsed: true,
+    childIndent: (level) => level + 2,
+  })
+}
+
+/**
+ * Parse a Mermaid mindmap into a tree structure
+ */
+export function parseMermaid(text: string, options: ParseOptions = {}): MindmapNode {
+  return parseMermaidWithDiagnostics(text, options).tree
+}
+
+/**
+ * Convert a tree to a Mermaid mindmap
+ *
+ * Collapsed flags are dropped since Mermaid cannot express them.
+ */
+export function treeToMermaid(root: MindmapNode): string {
+  const lines = ['mindmap']
+  let nextId = 1
+
+  const write = (node: MindmapNode, depth: number) => {
+    const indent = '  '.repeat(depth + 1)
+    lines.push(`${indent}${formatNode(node, () => `n${nextId++}`)}`)
+
+    if (node.icon) {
+      lines.push(`${indent}  ::icon(${node.icon})`)
+    }
+    if (node.classes && node.classes.length > 0) {
+      lines.push(`${indent}  :::${node.classes.join(' ')}`)
+    }
+
+    node.children.forEach((child) => write(child, depth + 1))
+  }
+
+  write(root, 0)
+  return lines.join('\n')
+}
+
+/**
+ * Lines that carry content: drops blank lines, `%%` comments and a leading
+ * `---` front matter block
+ */
+function getSignificantLines(text: string): { text: string; lineNumber: number }[] {
+  const lines = text.split('\n')
+  const result: { text: string; lineNumber: number }[] = []
+  let start = 0
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---')
+    if (end !== -1) start = end + 1
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const trimmed = lines[i].trim()
+    if (trimmed === '' || trimmed.startsWith('%%')) continue
+    result.push({ text: lines[i].replace(/\s+$/, ''), lineNumber: i + 1 })
+  }
+
+  return result
+}
+
+/**
+ * Split a node line into its text and shape
+ */
+function parseNodeText(content: string): { text: string; shape?: NodeShape } {
+  const start = content.search(DELIMITER_CHARS)
+  if (start === -1) {
+    return { text: unescapeText(content) }
+  }
+
+  const id = content.slice(0, start).trim()
+  const rest = content.slice(start)
+
+  for (const { shape, open, close } of SHAPE_DELIMITERS) {
+    if (
+      rest.length >= open.length + close.length &&
+      rest.startsWith(open) &&
+      rest.endsWith(close)
+    ) {
+      const inner = unquote(rest.slice(open.length, rest.length - close.length).trim())
+      return { text: unescapeText(inner || id), shape }
+    }
+  }
+
+  // Unbalanced delimiters: keep the line as plain text
+  return { text: unescapeText(content) }
+}
+
+// Strip "..." and markdown-string "`...`" wrappers
+function unquote(text: string): string {
+  const quoted = text.match(/^"(.*)"$/)
+  if (!quoted) return text
+  const markdown = quoted[1].match(/^`(.*)`$/)
+  return markdown ? markdown[1] : quoted[1]
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/#quot;/g, '"')
+}
+
+/**
+ * Write a node with its shape
+ *
+ * Text containing delimiters is quoted. A plain node cannot be quoted, so
+ * such nodes are written with the (visually closest) rounded shape.
+ */
+function formatNode(node: MindmapNode, nextId: () => string): string {
+  const needsQuotes = DELIMITER_CHARS.test(node.text) || node.text.includes('"')
+
+  if (!node.shape && !needsQuotes) {
+    return node.text
+  }
+
+  const shape = node.shape ?? 'rounded'
+  const { open, close } = SHAPE_DELIMITERS.find((entry) => entry.shape === shape)!
+  const text = needsQuotes ? `"${node.text.replace(/"/g, '#quot;')}"` : node.text
+  return `${nextId()}${open}${text}${close}`
+}
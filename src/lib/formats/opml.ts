@@ -0,0 +1,168 @@
+/**
+ * OPML Format
+ *
+ * Reads and writes OPML 2.0 outlines (the exchange format of most outliner
+ * apps).
+ *
+ * Mapping:
+ * - `<outline text>` becomes a node, nested outlines its children
+ * - `_note` becomes the node note
+ * - `<expansionState>` in the head gives the expanded nodes; every other
+ *   node with children is collapsed. Without it everything is expanded.
+ *   Nodes hidden under a collapsed ancestor have no line number there, so
+ *   they are read (and written) as expanded.
+ *
+ * A document with a single top-level outline uses it as the root. Several
+ * top-level outlines are placed under a root named after the head title.
+ */
+
+import type { MindmapNode } from '@/schemas'
+import { assignIds } from '@/lib/mindmap-parser'
+
+export interface OpmlDocument {
+  title: string
+  tree: MindmapNode
+}
+
+/**
+ * Check whether text is an OPML document
+ */
+export function isOpml(text: string): boolean {
+  return /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*<opml[\s>]/i.test(text)
+}
+
+/**
+ * Parse an OPML document into a tree
+ *
+ * Throws when the text is not well-formed OPML.
+ */
+export function parseOpml(text: string): OpmlDocument {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  const opml = doc.documentElement
+
+  if (doc.getElementsByTagName('parsererror').length > 0 || opml.nodeName !== 'opml') {
+    throw new Error('Not a valid OPML document')
+  }
+
+  const head = getChild(opml, 'head')
+  const body = getChild(opml, 'body')
+  const headTitle = head ? getChild(head, 'title')?.textContent?.trim() ?? '' : ''
+
+  const topLevel = body ? getChildren(body, 'outline') : []
+  const expanded = parseExpansionState(
+    head ? getChild(head, 'expansionState')?.textContent ?? null : null
+  )
+
+  // Outline numbers count visible lines in document order, starting at 0
+  let lineNumber = 0
+  const readOutline = (element: Element, visible: boolean): MindmapNode => {
+    const isExpanded = !visible || !expanded || expanded.has(lineNumber)
+    if (visible) lineNumber++
+
+    const children = getChildren(element, 'outline').map((child) =>
+      readOutline(child, visible && isExpanded)
+    )
+    const note = element.getAttribute('_note')
+
+    return {
+      id: '',
+      // Node text is a single line
+      text: (element.getAttribute('text') ?? element.getAttribute('title') ?? '')
+        .replace(/\s+/g, ' ')
+        .trim(),
+      children,
+      ...(children.length > 0 && !isExpanded && { collapsed: true }),
+      ...(note !== null && note !== '' && { note }),
+    }
+  }
+
+  const outlines = topLevel.map((element) => readOutline(element, true))
+  const root: MindmapNode =
+    outlines.length === 1
+      ? outlines[0]
+      : { id: '', text: headTitle || 'OPML', children: outlines }
+
+  return {
+    title: headTitle || root.text,
+    tree: assignIds(root),
+  }
+}
+
+/**
+ * Convert a tree to an OPML document
+ */
+export function treeToOpml(root: MindmapNode, title: string = root.text): string {
+  const expanded: number[] = []
+  let lineNumber = 0
+
+  const writeOutline = (node: MindmapNode, depth: number, visible: boolean): string => {
+    const indent = '  '.repeat(depth + 2)
+    const isExpanded = !node.collapsed
+    if (visible) {
+      if (node.children.length > 0 && isExpanded) expanded.push(lineNumber)
+      lineNumber++
+    }
+
+    const attributes = [`text="${escapeAttribute(node.text)}"`]
+    if (node.note) {
+      attributes.push(`_note="${escapeAttribute(node.note)}"`)
+    }
+
+    if (node.children.length === 0) {
+      return `${indent}<outline ${attributes.join(' ')}/>`
+    }
+
+    const children = node.children.map((child) =>
+      writeOutline(child, depth + 1, visible && isExpanded)
+    )
+    return [
+      `${indent}<outline ${attributes.join(' ')}>`,
+      ...children,
+      `${indent}</outline>`,
+    ].join('\n')
+  }
+
+  const body = writeOutline(root, 0, true)
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeText(title)}</title>`,
+    `    <expansionState>${expanded.join(',')}</expansionState>`,
+    '  </head>',
+    '  <body>',
+    body,
+    '  </body>',
+    '</opml>',
+  ].join('\n')
+}
+
+function getChild(element: Element, name: string): Element | null {
+  return getChildren(element, name)[0] ?? null
+}
+
+function getChildren(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter((child) => child.nodeName === name)
+}
+
+function parseExpansionState(value: string | null): Set<number> | null {
+  if (value === null) return null
+  const numbers = value
+    .split(',')
+    .filter((part) => part.trim() !== '')
+    .map(Number)
+    .filter(Number.isInteger)
+  return new Set(numbers)
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value)
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\t/g, '&#9;')
+}
@@ -0,0 +1,215 @@
+/**
+ * XMind Format
+ *
+ * Reads XMind workbooks (`.xmind`): a ZIP archive holding `content.json`
+ * (XMind Zen / 2020 and later) or `content.xml` (XMind 8 and earlier).
+ * Every sheet becomes its own tree.
+ *
+ * Mapping:
+ * - topic title becomes the node text, attached subtopics its children
+ *   (floating topics are added under the root)
+ * - plain-text notes become the note
+ * - labels, marker IDs and `href` are kept; `branch="folded"` collapses
+ * - relationships become arrows from one topic to the other
+ *
+ * Images, styles, summaries and boundaries are dropped.
+ */
+
+import type { MindmapNode } from '@/schemas'
+import { assignIds } from '@/lib/mindmap-parser'
+import { readZip, readZipText } from '@/lib/zip'
+
+export interface XMindSheet {
+  title: string
+  tree: MindmapNode
+}
+
+// Subset of the content.json topic structure that we read
+interface XMindJsonTopic {
+  id?: string
+  title?: string
+  branch?: string
+  href?: string
+  labels?: string[]
+  markers?: { markerId?: string }[]
+  notes?: { plain?: { content?: string } }
+  children?: { attached?: XMindJsonTopic[]; detached?: XMindJsonTopic[] }
+}
+
+interface XMindJsonSheet {
+  title?: string
+  rootTopic?: XMindJsonTopic
+  relationships?: { end1Id?: string; end2Id?: string }[]
+}
+
+/**
+ * Read every sheet of an XMind workbook
+ *
+ * Throws when the file is not a readable workbook.
+ */
+export async function parseXMind(data: ArrayBuffer | Uint8Array): Promise<XMindSheet[]> {
+  const entries = readZip(data)
+
+  const json = entries.get('content.json')
+  if (json) {
+    return parseXMindJson(await readZipText(json))
+  }
+
+  const xml = entries.get('content.xml')
+  if (xml) {
+    return parseXMindXml(await readZipText(xml))
+  }
+
+  throw new Error('Not an XMind workbook')
+}
+
+/**
+ * Read the sheets of an XMind Zen `content.json`
+ */
+export function parseXMindJson(text: string): XMindSheet[] {
+  const sheets = JSON.parse(text) as XMindJsonSheet[]
+  if (!Array.isArray(sheets)) {
+    throw new Error('Not an XMind workbook')
+  }
+
+  return sheets
+    .filter((sheet) => sheet.rootTopic)
+    .map((sheet, index) => {
+      const titles = new Map<string, string>()
+      const nodes = new Map<string, MindmapNode>()
+
+      const readTopic = (topic: XMindJsonTopic): MindmapNode => {
+        const text = toSingleLine(topic.title ?? '')
+        const children = (topic.children?.attached ?? []).map(readTopic)
+        const note = topic.notes?.plain?.content?.trim()
+        const markers = (topic.markers ?? [])
+          .map((marker) => marker.markerId)
+          .filter((id): id is string => !!id)
+
+        const node: MindmapNode = {
+          id: '',
+          text,
+          children,
+          ...(topic.branch === 'folded' && children.length > 0 && { collapsed: true }),
+          ...(note && { note }),
+          ...(topic.href && { link: topic.href }),
+          ...(topic.labels && topic.labels.length > 0 && { labels: [...topic.labels] }),
+          ...(markers.length > 0 && { markers }),
+        }
+
+        if (topic.id) {
+          titles.set(topic.id, text)
+          nodes.set(topic.id, node)
+        }
+        return node
+      }
+
+      const root = readTopic(sheet.rootTopic!)
+      root.children.push(...(sheet.rootTopic!.children?.detached ?? []).map(readTopic))
+
+      for (const { end1Id, end2Id } of sheet.relationships ?? []) {
+        addArrow(nodes.get(end1Id ?? ''), titles.get(end2Id ?? ''))
+      }
+
+      return {
+        title: sheet.title?.trim() || root.text || `Sheet ${index + 1}`,
+        tree: assignIds(root),
+      }
+    })
+}
+
+/**
+ * Read the sheets of a legacy XMind `content.xml`
+ */
+export function parseXMindXml(text: string): XMindSheet[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not an XMind workbook')
+  }
+
+  return getChildren(doc.documentElement, 'sheet').flatMap((sheet, index) => {
+    const rootTopic = getChild(sheet, 'topic')
+    if (!rootTopic) return []
+
+    const titles = new Map<string, string>()
+    const nodes = new Map<string, MindmapNode>()
+
+    const readTopic = (topic: Element): MindmapNode => {
+      const text = toSingleLine(getChild(topic, 'title')?.textContent ?? '')
+      const children = getTopics(topic, 'attached').map(readTopic)
+      const notes = getChild(topic, 'notes')
+      const note = (notes && getChild(notes, 'plain')?.textContent?.trim()) || ''
+      const labels = getDescendants(topic, 'labels', 'label')
+        .map((label) => label.textContent?.trim() ?? '')
+        .filter(Boolean)
+      const markers = getDescendants(topic, 'marker-refs', 'marker-ref')
+        .map((marker) => marker.getAttribute('marker-id') ?? '')
+        .filter(Boolean)
+      const link = topic.getAttribute('xlink:href')
+
+      const node: MindmapNode = {
+        id: '',
+        text,
+        children,
+        ...(topic.getAttribute('branch') === 'folded' && children.length > 0 && { collapsed: true }),
+        ...(note && { note }),
+        ...(link && { link }),
+        ...(labels.length > 0 && { labels }),
+        ...(markers.length > 0 && { markers }),
+      }
+
+      const id = topic.getAttribute('id')
+      if (id) {
+        titles.set(id, text)
+        nodes.set(id, node)
+      }
+      return node
+    }
+
+    const root = readTopic(rootTopic)
+    root.children.push(...getTopics(rootTopic, 'detached').map(readTopic))
+
+    for (const relationship of getDescendants(sheet, 'relationships', 'relationship')) {
+      addArrow(
+        nodes.get(relationship.getAttribute('end1') ?? ''),
+        titles.get(relationship.getAttribute('end2') ?? '')
+      )
+    }
+
+    const title = getChild(sheet, 'title')?.textContent?.trim()
+    return [{ title: title || root.text || `Sheet ${index + 1}`, tree: assignIds(root) }]
+  })
+}
+
+function addArrow(node: MindmapNode | undefined, target: string | undefined): void {
+  if (!node || target === undefined) return
+  node.arrows = [...(node.arrows ?? []), target]
+}
+
+// Matches by local name, since content.xml uses a default namespace
+function getChildren(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter((child) => child.localName === name)
+}
+
+function getChild(element: Element, name: string): Element | null {
+  return getChildren(element, name)[0] ?? null
+}
+
+function getDescendants(element: Element, container: string, name: string): Element[] {
+  const parent = getChild(element, container)
+  return parent ? getChildren(parent, name) : []
+}
+
+// Subtopics of one kind (`<children><topics type="attached">`)
+function getTopics(topic: Element, type: string): Element[] {
+  const children = getChild(topic, 'children')
+  if (!children) return []
+  return getChildren(children, 'topics')
+    .filter((topics) => (topics.getAttribute('type') ?? 'attached') === type)
+    .flatMap((topics) => getChildren(topics, 'topic'))
+}
+
+// Node text is a single line
+function toSingleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
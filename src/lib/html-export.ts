@@ -0,0 +1,84 @@
+/**
+ * HTML Export
+ *
+ * Builds a single self-contained `.html` file: the document text, the
+ * parsed tree, the node font and the viewer script (see `html-viewer.ts`),
+ * with no external requests. The file can be emailed or archived and
+ * opened in any browser, offline.
+ */
+
+import { viewerGlobal, viewerScript } from 'virtual:html-viewer'
+import type { DocumentFormat, LayoutMode, MindmapNode } from '@/schemas'
+import type { ViewerData } from '@/lib/html-viewer'
+import { getNodeFontFaces } from '@/lib/node-font'
+
+export interface HtmlExportOptions {
+  title: string
+  // Source text of the document, embedded for recovery
+  content: string
+  format: DocumentFormat
+  layout?: LayoutMode
+  // @font-face rules to embed (default: the loaded node font)
+  fontFaces?: string
+  // Translated viewer labels
+  labels: ViewerData['labels']
+}
+
+const STYLES = `
+* { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; font: 12px system-ui, sans-serif; background: #f9fafb; }
+body { display: flex; flex-direction: column; }
+.toolbar { display: flex; gap: 8px; align-items: center; padding: 8px; background: #ffffff; border-bottom: 1px solid #e5e7eb; }
+.toolbar input { flex: 0 1 240px; padding: 4px 8px; border: 1px solid #d1d5db; border-radius: 4px; font: inherit; }
+.toolbar span { color: #6b7280; min-width: 3em; }
+.toolbar button { padding: 4px 10px; border: 1px solid #d1d5db; border-radius: 4px; background: #ffffff; font: inherit; cursor: pointer; }
+.toolbar button:hover { background: #f3f4f6; }
+svg { flex: 1; width: 100%; cursor: grab; touch-action: none; user-select: none; }
+svg:active { cursor: grabbing; }
+.foldable { cursor: pointer; }
+`
+
+/**
+ * Render a tree as a standalone interactive HTML page
+ */
+export function renderMindmapHtml(tree: MindmapNode, options: HtmlExportOptions): string {
+  const { fontFaces = getNodeFontFaces() } = options
+  const data: ViewerData = {
+    title: options.title,
+    content: options.content,
+    format: options.format,
+    layout: options.layout,
+    tree,
+    labels: options.labels,
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(options.title)}</title>`,
+    `<style>${STYLES}${fontFaces}</style>`,
+    '</head>',
+    '<body>',
+    `<script type="application/json" id="mindmap-data">${toScriptJson(data)}</script>`,
+    `<script>${toScriptSource(viewerScript)}\n${viewerGlobal}.runViewer(JSON.parse(document.getElementById('mindmap-data').textContent))</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n')
+}
+
+// JSON that cannot end the surrounding <script> element early
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c')
+}
+
+// Script that cannot end the surrounding <script> element early
+function toScriptSource(code: string): string {
+  return code.replace(/<\/(script)/gi, '<\\/$1')
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
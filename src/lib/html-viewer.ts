@@ -0,0 +1,336 @@
+/**
+ * Standalone HTML Viewer
+ *
+ * The script that runs inside exported HTML files. It is bundled with the
+ * layout code it imports into one classic script (see
+ * `vite-plugin-html-viewer.ts`), so the page lays out and draws maps like
+ * the preview: same layout modes, wrapping, shapes and arrow links.
+ *
+ * It supports zoom (wheel, buttons), pan (drag), collapse (click a node)
+ * and search (expands and highlights matches; Enter jumps to the next one).
+ */
+
+import type { LayoutMode, MindmapNode } from '@/schemas'
+import {
+  calculateLayout,
+  flattenPositions,
+  getArrowLinks,
+  getArrowPath,
+  getBadgeAnchor,
+  getBoundingBox,
+  getConnectionPath,
+  getNodeShapePath,
+  NODE_FONT_FAMILY,
+  NODE_FONT_NAME,
+  NODE_FONT_SIZE,
+  NODE_LINE_HEIGHT,
+  type NodePosition,
+} from '@/lib/mindmap-layout'
+import { countNodes } from '@/lib/mindmap-parser'
+
+export interface ViewerData {
+  title: string
+  // Original document text and its format, kept so the map can be restored
+  content: string
+  format: string
+  layout?: LayoutMode
+  tree: MindmapNode
+  labels: { search: string; fit: string; source: string }
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+const ARROW_MARKER_ID = 'arrow'
+const MATCH_COLOR = '#f59e0b'
+// Same colors and shadow as the light preview (see MindmapScene)
+const NODE_SHADOW = 'drop-shadow(0 1px 2px rgb(0 0 0 / 0.15))'
+const COLORS = {
+  rootFill: '#3b82f6',
+  rootStroke: '#2563eb',
+  fill: '#ffffff',
+  stroke: '#d1d5db',
+  text: '#374151',
+  line: '#9ca3af',
+  arrow: '#6366f1',
+  badge: '#f59e0b',
+}
+
+/**
+ * Render the viewer into `document.body`
+ */
+export function runViewer(data: ViewerData): void {
+  // Page structure
+  document.title = data.title
+  const toolbar = document.createElement('div')
+  toolbar.className = 'toolbar'
+  const search = document.createElement('input')
+  search.type = 'search'
+  search.placeholder = data.labels.search
+  const matchCount = document.createElement('span')
+  const button = (label: string, onClick: () => void) => {
+    const element = document.createElement('button')
+    element.textContent = label
+    element.addEventListener('click', onClick)
+    toolbar.appendChild(element)
+  }
+  toolbar.append(search, matchCount)
+  button('+', () => zoomBy(1.2))
+  button('−', () => zoomBy(1 / 1.2))
+  button(data.labels.fit, () => fit())
+  button(data.labels.source, () => {
+    const url = URL.createObjectURL(new Blob([data.content], { type: 'text/plain' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${data.title || 'mindmap'}.${data.format === 'mermaid' ? 'mmd' : data.format === 'markdown' ? 'md' : 'txt'}`
+    link.click()
+    URL.revokeObjectURL(url)
+  })
+
+  const svg = document.createElementNS(SVG_NS, 'svg')
+  const scene = document.createElementNS(SVG_NS, 'g')
+  svg.appendChild(scene)
+  document.body.append(toolbar, svg)
+
+  let scale = 1
+  let translate = { x: 40, y: 40 }
+  let matches: NodePosition[] = []
+  let current = -1
+
+  const applyTransform = () =>
+    scene.setAttribute('transform', `translate(${translate.x} ${translate.y}) scale(${scale})`)
+
+  const create = (name: string, attributes: Record<string, string | number>) => {
+    const element = document.createElementNS(SVG_NS, name)
+    for (const key in attributes) element.setAttribute(key, String(attributes[key]))
+    return element
+  }
+
+  let root = calculateLayout(data.tree, { mode: data.layout })
+
+  const render = () => {
+    root = calculateLayout(data.tree, { mode: data.layout })
+    const positions = flattenPositions(root)
+    const query = search.value.trim().toLowerCase()
+    scene.replaceChildren()
+
+    for (const pos of positions) {
+      for (const child of pos.children) {
+        scene.appendChild(create('path', {
+          d: getConnectionPath(pos, child),
+          fill: 'none',
+          stroke: COLORS.line,
+          'stroke-width': 2,
+        }))
+      }
+    }
+
+    const arrows = getArrowLinks(positions)
+    if (arrows.length > 0) {
+      const marker = create('marker', {
+        id: ARROW_MARKER_ID,
+        viewBox: '0 0 10 10',
+        refX: 9,
+        refY: 5,
+        markerWidth: 8,
+        markerHeight: 8,
+        orient: 'auto-start-reverse',
+      })
+      marker.appendChild(create('path', { d: 'M 0 0 L 10 5 L 0 10 Z', fill: COLORS.arrow }))
+      const defs = create('defs', {})
+      defs.appendChild(marker)
+      scene.appendChild(defs)
+    }
+    for (const { from, to } of arrows) {
+      scene.appendChild(create('path', {
+        d: getArrowPath(from, to),
+        fill: 'none',
+        stroke: COLORS.arrow,
+        'stroke-width': 1.5,
+        'stroke-dasharray': '6 4',
+        'marker-end': `url(#${ARROW_MARKER_ID})`,
+      }))
+    }
+
+    matches = []
+    for (const pos of positions) {
+      const { node, x, y, width, height, lines, depth } = pos
+      const isRoot = depth === 0
+      const isMatch = query !== '' && node.text.toLowerCase().includes(query)
+      if (isMatch) matches.push(pos)
+
+      const group = create('g', {})
+      if (node.children.length > 0) group.setAttribute('class', 'foldable')
+      const tooltip = [node.note, node.link, node.labels?.join(', ')].filter(Boolean).join('\n\n')
+      if (tooltip) {
+        const title = create('title', {})
+        title.textContent = tooltip
+        group.appendChild(title)
+      }
+      group.appendChild(create('path', {
+        d: getNodeShapePath(pos),
+        fill: isRoot ? COLORS.rootFill : COLORS.fill,
+        stroke: isMatch ? MATCH_COLOR : isRoot ? COLORS.rootStroke : COLORS.stroke,
+        'stroke-width': isMatch ? 3 : 2,
+        style: `filter: ${NODE_SHADOW}`,
+      }))
+
+      // One tspan per wrapped line, centered vertically
+      const text = create('text', {
+        x: x + width / 2,
+        y: y + height / 2 - ((lines.length - 1) * NODE_LINE_HEIGHT) / 2,
+        'text-anchor': 'middle',
+        'dominant-baseline': 'middle',
+        fill: node.color ?? (isRoot ? '#ffffff' : COLORS.text),
+        'font-size': NODE_FONT_SIZE,
+        'font-family': NODE_FONT_FAMILY,
+        'font-weight': isRoot ? 600 : 400,
+      })
+      lines.forEach((line, index) => {
+        const tspan = create('tspan', { x: x + width / 2, dy: index === 0 ? 0 : NODE_LINE_HEIGHT })
+        tspan.textContent = line
+        text.appendChild(tspan)
+      })
+      group.appendChild(text)
+
+      const hidden = node.collapsed ? countNodes(node) - 1 : 0
+      if (hidden > 0) {
+        const anchor = getBadgeAnchor(pos)
+        const badge = create('g', {})
+        badge.appendChild(create('circle', {
+          cx: anchor.x,
+          cy: anchor.y,
+          r: 10,
+          fill: COLORS.badge,
+          stroke: '#ffffff',
+          'stroke-width': 2,
+        }))
+        const count = create('text', {
+          x: anchor.x,
+          y: anchor.y,
+          'text-anchor': 'middle',
+          'dominant-baseline': 'central',
+          fill: '#ffffff',
+          'font-size': 9,
+          'font-family': NODE_FONT_FAMILY,
+          'font-weight': 600,
+        })
+        count.textContent = hidden > 99 ? '99+' : `+${hidden}`
+        badge.appendChild(count)
+        group.appendChild(badge)
+      }
+
+      group.addEventListener('click', () => {
+        if (dragged || node.children.length === 0) return
+        node.collapsed = !node.collapsed
+        render()
+      })
+      scene.appendChild(group)
+    }
+
+    matchCount.textContent = query === '' ? '' : `${matches.length === 0 ? 0 : Math.max(current, 0) + 1}/${matches.length}`
+  }
+
+  const fit = () => {
+    const box = getBoundingBox(root)
+    const rect = svg.getBoundingClientRect()
+    const padding = 40
+    if (rect.width === 0 || rect.height === 0) return
+    scale = Math.min(
+      (rect.width - padding * 2) / (box.width || 1),
+      (rect.height - padding * 2) / (box.height || 1),
+      1.5
+    )
+    translate = {
+      x: (rect.width - box.width * scale) / 2 - box.minX * scale,
+      y: (rect.height - box.height * scale) / 2 - box.minY * scale,
+    }
+    applyTransform()
+  }
+
+  // Zoom around a point of the viewport (the center by default)
+  const zoomBy = (factor: number, originX?: number, originY?: number) => {
+    const rect = svg.getBoundingClientRect()
+    const x = originX ?? rect.width / 2
+    const y = originY ?? rect.height / 2
+    const next = Math.min(Math.max(scale * factor, 0.1), 4)
+    translate = {
+      x: x - ((x - translate.x) * next) / scale,
+      y: y - ((y - translate.y) * next) / scale,
+    }
+    scale = next
+    applyTransform()
+  }
+
+  svg.addEventListener('wheel', (event) => {
+    event.preventDefault()
+    const rect = svg.getBoundingClientRect()
+    zoomBy(event.deltaY > 0 ? 0.9 : 1.1, event.clientX - rect.left, event.clientY - rect.top)
+  }, { passive: false })
+
+  // Pan by dragging; a drag does not count as a click on a node
+  let dragStart: { x: number; y: number } | null = null
+  let dragged = false
+  svg.addEventListener('pointerdown', (event) => {
+    dragStart = { x: event.clientX - translate.x, y: event.clientY - translate.y }
+    dragged = false
+  })
+  svg.addEventListener('pointermove', (event) => {
+    if (!dragStart) return
+    const next = { x: event.clientX - dragStart.x, y: event.clientY - dragStart.y }
+    if (Math.abs(next.x - translate.x) + Math.abs(next.y - translate.y) > 3) dragged = true
+    if (dragged) {
+      translate = next
+      applyTransform()
+    }
+  })
+  window.addEventListener('pointerup', () => {
+    dragStart = null
+  })
+
+  // Search: unfold ancestors of every match, then highlight them
+  const expandMatches = (node: MindmapNode, query: string): boolean => {
+    let found = false
+    for (const child of node.children) {
+      if (expandMatches(child, query)) found = true
+    }
+    if (found) node.collapsed = false
+    return found || node.text.toLowerCase().includes(query)
+  }
+
+  const centerOn = (pos: NodePosition) => {
+    const rect = svg.getBoundingClientRect()
+    translate = {
+      x: rect.width / 2 - (pos.x + pos.width / 2) * scale,
+      y: rect.height / 2 - (pos.y + pos.height / 2) * scale,
+    }
+    applyTransform()
+  }
+
+  search.addEventListener('input', () => {
+    const query = search.value.trim().toLowerCase()
+    if (query) expandMatches(data.tree, query)
+    current = -1
+    render()
+  })
+  search.addEventListener('keydown', (event) => {
+    if (event.key !== 'Enter' || matches.length === 0) return
+    current = (current + 1) % matches.length
+    render()
+    centerOn(matches[current])
+  })
+
+  render()
+  applyTransform()
+  requestAnimationFrame(fit)
+
+  // Labels are measured in the embedded node font: lay out again once it
+  // has loaded (browsers only load it on first use)
+  if (document.fonts) {
+    Promise.all([400, 600].map((weight) => document.fonts.load(`${weight} ${NODE_FONT_SIZE}px ${NODE_FONT_NAME}`)))
+      .then((loaded) => {
+        if (!loaded.some((faces) => faces.length > 0)) return
+        render()
+        fit()
+      })
+      .catch(() => {})
+  }
+}
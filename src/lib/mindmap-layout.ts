@@ -0,0 +1,659 @@
+/**
+ * Mindmap Layout Engine
+ *
+ * Computes node positions for rendering a parsed mindmap tree.
+ * Several layout modes share the same `NodePosition` output, so the
+ * renderer does not need to know which one produced it.
+ *
+ * Modes:
+ * - horizontal: the tree grows to the right of the root (outline style)
+ * - balanced:   root in the center, first-level branches split between the
+ *               right and left sides so both halves have similar heights
+ * - radial:     root in the center, one ring per depth, each subtree in a
+ *               wedge proportional to its leaf count
+ * - orgchart:   top-down tree, children hang below their parent in rows,
+ *               joined by orthogonal elbow connectors
+ *
+ * The horizontal, balanced and org chart modes pack subtrees with the tidy
+ * tree algorithm in `tidy-tree.ts`.
+ *
+ * Connection and badge geometry also live here (`getConnectionPath`,
+ * `getBadgeAnchor`) so every mode can draw its own connector style.
+ */
+
+import { LayoutModeSchema, type LayoutMode, type MindmapNode } from '@/schemas'
+import { wrapText, getDefaultMeasurer, type FontSpec, type TextMeasurer } from './text-measure'
+import { computeTidyCenters, type TidyNode } from './tidy-tree'
+
+export type { LayoutMode }
+
+export type LayoutDirection = 'right' | 'left' | 'down' | 'radial'
+
+export const LAYOUT_MODES: readonly LayoutMode[] = LayoutModeSchema.options
+
+/**
+ * Calculate node positions for rendering
+ */
+export interface NodePosition {
+  node: MindmapNode
+  x: number
+  y: number
+  width: number
+  height: number
+  // Distance from the root (0 for the root itself)
+  depth: number
+  // Side of the node its children grow towards
+  direction: LayoutDirection
+  // Radial layouts: angle (radians, clockwise from 3 o'clock) of the node
+  angle?: number
+  // Label wrapped into lines that fit the node width
+  lines: string[]
+  children: NodePosition[]
+}
+
+export interface LayoutOptions {
+  // Defaults to 'horizontal'
+  mode?: LayoutMode
+  // Defaults to canvas measurement with the node font
+  measureText?: TextMeasurer
+}
+
+// Bundled font (see node-font.ts), with the system UI font as fallback
+export const NODE_FONT_NAME = 'Inter'
+export const NODE_FONT_FAMILY = `${NODE_FONT_NAME}, system-ui, sans-serif`
+export const NODE_FONT_SIZE = 12
+export const NODE_LINE_HEIGHT = 16
+
+const NODE_HEIGHT = 40
+const NODE_PADDING = 20
+const NODE_VERTICAL_PADDING = 12
+const NODE_MIN_WIDTH = 100
+const NODE_MAX_TEXT_WIDTH = 200
+const LEVEL_GAP = 150
+const LEVEL_SPACING = 50
+const SIBLING_GAP = 20
+const SUBTREE_GAP = 30
+const RING_SPACING = 40
+const ROW_GAP = 50
+
+/**
+ * Font used for a node label (the root is drawn bold)
+ */
+export function getNodeFont(depth: number): FontSpec {
+  return {
+    size: NODE_FONT_SIZE,
+    family: NODE_FONT_FAMILY,
+    weight: depth === 0 ? 600 : 400,
+  }
+}
+
+export function calculateLayout(
+  node: MindmapNode,
+  options: LayoutOptions = {}
+): NodePosition {
+  const measure = options.measureText ?? getDefaultMeasurer()
+
+  switch (options.mode ?? 'horizontal') {
+    case 'balanced':
+      return layoutBalanced(measureTree(node, 0, measure, 'y'))
+    case 'radial':
+      return layoutRadial(node, measure)
+    case 'orgchart':
+      return layoutOrgChart(measureTree(node, 0, measure, 'x'))
+    case 'horizontal':
+    default:
+      return layoutHorizontal(measureTree(node, 0, measure, 'y'))
+  }
+}
+
+/**
+ * Wrap a label and size its node box
+ */
+function measureNode(
+  text: string,
+  depth: number,
+  measure: TextMeasurer
+): { lines: string[]; width: number; height: number } {
+  const font = getNodeFont(depth)
+  const lines = wrapText(text, NODE_MAX_TEXT_WIDTH, font, measure)
+  const textWidth = Math.max(...lines.map((line) => measure(line, font)))
+  const textHeight = lines.length * NODE_LINE_HEIGHT
+
+  return {
+    lines,
+    width: Math.max(NODE_MIN_WIDTH, Math.ceil(textWidth) + NODE_PADDING * 2),
+    height: Math.max(NODE_HEIGHT, textHeight + NODE_VERTICAL_PADDING * 2),
+  }
+}
+
+/**
+ * Node measured for layout, with its breadth across the layers
+ * (height in left-to-right layouts, width in top-down ones)
+ */
+interface MeasuredNode extends TidyNode {
+  node: MindmapNode
+  depth: number
+  lines: string[]
+  width: number
+  height: number
+  children: MeasuredNode[]
+}
+
+/**
+ * Measure the visible tree (collapsed nodes hide their children)
+ */
+function measureTree(
+  node: MindmapNode,
+  depth: number,
+  measure: TextMeasurer,
+  axis: 'x' | 'y'
+): MeasuredNode {
+  const size = measureNode(node.text, depth, measure)
+  const visibleChildren = node.collapsed ? [] : node.children
+
+  return {
+    node,
+    depth,
+    ...size,
+    breadth: axis === 'y' ? size.height : size.width,
+    children: visibleChildren.map((child) => measureTree(child, depth + 1, measure, axis)),
+  }
+}
+
+// Largest value of a node property per depth
+function maxPerDepth(
+  root: MeasuredNode,
+  get: (node: MeasuredNode) => number
+): number[] {
+  const result: number[] = []
+  const walk = (node: MeasuredNode) => {
+    result[node.depth] = Math.max(result[node.depth] ?? 0, get(node))
+    node.children.forEach(walk)
+  }
+  walk(root)
+  return result
+}
+
+const TIDY_OPTIONS = { siblingGap: SIBLING_GAP, subtreeGap: SUBTREE_GAP }
+
+/**
+ * Horizontal layout: one column per depth, growing to the right
+ *
+ * Columns are as wide as their widest node; within a column, subtrees are
+ * packed by the tidy tree algorithm. The root is centered on y = 0.
+ */
+function layoutHorizontal(root: MeasuredNode): NodePosition {
+  const columnWidths = maxPerDepth(root, (node) => node.width)
+  const columnX = [0]
+  for (let depth = 1; depth < columnWidths.length; depth++) {
+    const previous = columnWidths[depth - 1]
+    columnX.push(columnX[depth - 1] + previous + getChildGap(previous))
+  }
+
+  const centers = computeTidyCenters(root, TIDY_OPTIONS)
+
+  const place = (measured: MeasuredNode): NodePosition => ({
+    node: measured.node,
+    x: columnX[measured.depth],
+    y: centers.get(measured)! - measured.height / 2,
+    width: measured.width,
+    height: measured.height,
+    depth: measured.depth,
+    direction: 'right',
+    lines: measured.lines,
+    children: measured.children.map(place),
+  })
+
+  return place(root)
+}
+
+// Horizontal gap between a parent's edge and its children
+function getChildGap(parentWidth: number): number {
+  return Math.max(LEVEL_GAP - parentWidth, LEVEL_SPACING)
+}
+
+/**
+ * Balanced layout: root at the origin, branches on both sides
+ *
+ * The first branches (in document order) go to the right side and the
+ * rest to the left, split where both sides are closest in height. Each
+ * side is laid out like the horizontal layout; the left one is mirrored
+ * and read clockwise, i.e. bottom to top.
+ */
+function layoutBalanced(root: MeasuredNode): NodePosition {
+  const weights = root.children.map((branch) => getTidyExtent(branch) + SUBTREE_GAP)
+  const split = findBalancedSplit(weights)
+
+  const right = layoutHorizontal({ ...root, children: root.children.slice(0, split) })
+  const left = mirrorPosition(
+    layoutHorizontal({ ...root, children: root.children.slice(split).reverse() }),
+    root.width
+  )
+
+  return {
+    ...right,
+    // Keep document order: right side first, then the left side
+    children: [...right.children, ...left.children.reverse()],
+  }
+}
+
+// Breadth of a subtree once packed by the tidy tree algorithm
+function getTidyExtent(root: MeasuredNode): number {
+  const centers = computeTidyCenters(root, TIDY_OPTIONS)
+  let min = Infinity
+  let max = -Infinity
+  centers.forEach((center, node) => {
+    min = Math.min(min, center - node.breadth / 2)
+    max = Math.max(max, center + node.breadth / 2)
+  })
+  return max - min
+}
+
+/**
+ * Number of leading branches to put on the right so both sides weigh
+ * about the same (ties favour the right side)
+ */
+function findBalancedSplit(weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  let best = weights.length
+  let bestDiff = Infinity
+  let prefix = 0
+
+  for (let k = 1; k <= weights.length; k++) {
+    prefix += weights[k - 1]
+    const diff = Math.abs(prefix - (total - prefix))
+    if (diff < bestDiff) {
+      best = k
+      bestDiff = diff
+    }
+  }
+
+  return best
+}
+
+/**
+ * Org chart layout: root at the top, one row per depth
+ *
+ * Rows are as tall as their tallest node; within a row, subtrees are
+ * packed by the tidy tree algorithm and each parent is centered over its
+ * first and last child. The root is centered on x = 0.
+ */
+function layoutOrgChart(root: MeasuredNode): NodePosition {
+  const rowHeights = maxPerDepth(root, (node) => node.height)
+  const rowTops = [0]
+  for (let depth = 1; depth < rowHeights.length; depth++) {
+    rowTops.push(rowTops[depth - 1] + rowHeights[depth - 1] + ROW_GAP)
+  }
+
+  const centers = computeTidyCenters(root, TIDY_OPTIONS)
+
+  const place = (measured: MeasuredNode): NodePosition => ({
+    node: measured.node,
+    x: centers.get(measured)! - measured.width / 2,
+    y: rowTops[measured.depth] + (rowHeights[measured.depth] - measured.height) / 2,
+    width: measured.width,
+    height: measured.height,
+    depth: measured.depth,
+    direction: 'down',
+    lines: measured.lines,
+    children: measured.children.map(place),
+  })
+
+  return place(root)
+}
+
+interface RadialNode {
+  node: MindmapNode
+  depth: number
+  lines: string[]
+  width: number
+  height: number
+  // Center angle and angular size of the node's wedge
+  angle: number
+  wedge: number
+  children: RadialNode[]
+}
+
+/**
+ * Radial layout: root centered on the origin, one ring per depth
+ *
+ * Wedges start at 12 o'clock and go clockwise. Each ring is placed far
+ * enough out to clear the previous ring, and far enough that every node
+ * fits within the arc of its own wedge.
+ */
+function layoutRadial(node: MindmapNode, measure: TextMeasurer): NodePosition {
+  const levels: RadialNode[][] = []
+
+  // Pass 1: measure nodes and split wedges by leaf count
+  const build = (
+    current: MindmapNode,
+    depth: number,
+    start: number,
+    wedge: number
+  ): RadialNode => {
+    const visibleChildren = current.collapsed ? [] : current.children
+    const leaves = countVisibleLeaves(current)
+    let cursor = start
+
+    const radialNode: RadialNode = {
+      node: current,
+      depth,
+      ...measureNode(current.text, depth, measure),
+      angle: start + wedge / 2,
+      wedge,
+      children: visibleChildren.map((child) => {
+        const childWedge = (wedge * countVisibleLeaves(child)) / leaves
+        const built = build(child, depth + 1, cursor, childWedge)
+        cursor += childWedge
+        return built
+      }),
+    }
+
+    if (!levels[depth]) levels[depth] = []
+    levels[depth].push(radialNode)
+    return radialNode
+  }
+
+  const root = build(node, 0, -Math.PI / 2, Math.PI * 2)
+
+  // Pass 2: ring radii
+  const halfDiagonal = (n: RadialNode) => Math.hypot(n.width, n.height) / 2
+  const radii = [0]
+  for (let depth = 1; depth < levels.length; depth++) {
+    const previousExtent = Math.max(...levels[depth - 1].map(halfDiagonal))
+    const extent = Math.max(...levels[depth].map(halfDiagonal))
+    let radius = radii[depth - 1] + previousExtent + extent + RING_SPACING
+
+    for (const n of levels[depth]) {
+      // Size of the box along the ring at this angle
+      const tangential =
+        Math.abs(n.width * Math.sin(n.angle)) + Math.abs(n.height * Math.cos(n.angle))
+      radius = Math.max(radius, (tangential + SIBLING_GAP) / n.wedge)
+    }
+    radii.push(radius)
+  }
+
+  // Pass 3: convert polar coordinates to boxes
+  const place = (n: RadialNode): NodePosition => {
+    const radius = radii[n.depth]
+    const centerX = radius * Math.cos(n.angle)
+    const centerY = radius * Math.sin(n.angle)
+
+    return {
+      node: n.node,
+      x: centerX - n.width / 2,
+      y: centerY - n.height / 2,
+      width: n.width,
+      height: n.height,
+      depth: n.depth,
+      direction: 'radial',
+      ...(n.depth > 0 && { angle: n.angle }),
+      lines: n.lines,
+      children: n.children.map(place),
+    }
+  }
+
+  return place(root)
+}
+
+// Leaves of the visible tree (a collapsed node counts as one leaf)
+function countVisibleLeaves(node: MindmapNode): number {
+  if (node.collapsed || node.children.length === 0) return 1
+  return node.children.reduce((sum, child) => sum + countVisibleLeaves(child), 0)
+}
+
+/**
+ * Mirror a subtree horizontally so x maps to (axis - x - width)
+ */
+function mirrorPosition(pos: NodePosition, axis: number): NodePosition {
+  return {
+    ...pos,
+    x: axis - pos.x - pos.width,
+    direction: pos.direction === 'right' ? 'left' : 'right',
+    children: pos.children.map((child) => mirrorPosition(child, axis)),
+  }
+}
+
+/**
+ * Get all node positions as flat array for rendering
+ */
+export function flattenPositions(root: NodePosition): NodePosition[] {
+  const result: NodePosition[] = [root]
+
+  for (const child of root.children) {
+    result.push(...flattenPositions(child))
+  }
+
+  return result
+}
+
+/**
+ * Calculate bounding box for the entire tree
+ */
+export function getBoundingBox(root: NodePosition): {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+  width: number
+  height: number
+} {
+  const positions = flattenPositions(root)
+
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+
+  for (const pos of positions) {
+    minX = Math.min(minX, pos.x)
+    minY = Math.min(minY, pos.y)
+    maxX = Math.max(maxX, pos.x + pos.width)
+    maxY = Math.max(maxY, pos.y + pos.height)
+  }
+
+  return {
+    minX,
+    minY,
+    maxX,
+    maxY,
+    width: maxX - minX,
+    height: maxY - minY,
+  }
+}
+
+/**
+ * Point where a ray from the center of a box in direction (dx, dy)
+ * leaves the box
+ */
+function getBoxEdgePoint(
+  pos: NodePosition,
+  dx: number,
+  dy: number
+): { x: number; y: number } {
+  const centerX = pos.x + pos.width / 2
+  const centerY = pos.y + pos.height / 2
+  const t = Math.min(
+    dx === 0 ? Infinity : pos.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : pos.height / 2 / Math.abs(dy)
+  )
+  return { x: centerX + dx * t, y: centerY + dy * t }
+}
+
+/**
+ * SVG path for the connection between a parent and one of its children
+ */
+export function getConnectionPath(parent: NodePosition, child: NodePosition): string {
+  if (child.direction === 'radial') {
+    // Straight line between the facing box edges
+    const dx = child.x + child.width / 2 - (parent.x + parent.width / 2)
+    const dy = child.y + child.height / 2 - (parent.y + parent.height / 2)
+    const start = getBoxEdgePoint(parent, dx, dy)
+    const end = getBoxEdgePoint(child, -dx, -dy)
+    return `M ${start.x} ${start.y} L ${end.x} ${end.y}`
+  }
+
+  if (child.direction === 'down') {
+    // Orthogonal elbow: down from the parent, across, down into the child
+    const startX = parent.x + parent.width / 2
+    const startY = parent.y + parent.height
+    const endX = child.x + child.width / 2
+    const endY = child.y
+    const midY = startY + (endY - startY) / 2
+    return `M ${startX} ${startY} V ${midY} H ${endX} V ${endY}`
+  }
+
+  // Branches on the left side are mirrored: leave the parent's left edge
+  // and enter the child's right edge
+  const isLeft = child.direction === 'left'
+  const startX = isLeft ? parent.x : parent.x + parent.width
+  const startY = parent.y + parent.height / 2
+  const endX = isLeft ? child.x + child.width : child.x
+  const endY = child.y + child.height / 2
+
+  // Bezier curve control points
+  const midX = (startX + endX) / 2
+  return `M ${startX} ${startY} C ${midX} ${startY}, ${midX} ${endY}, ${endX} ${endY}`
+}
+
+/**
+ * Arrow links between visible nodes
+ *
+ * Targets are matched by text, first match in document order; arrows to
+ * hidden or missing nodes are skipped.
+ */
+export function getArrowLinks(
+  positions: NodePosition[]
+): { from: NodePosition; to: NodePosition }[] {
+  const byText = new Map<string, NodePosition>()
+  for (const pos of positions) {
+    if (!byText.has(pos.node.text)) byText.set(pos.node.text, pos)
+  }
+
+  return positions.flatMap((from) =>
+    (from.node.arrows ?? []).flatMap((text) => {
+      const to = byText.get(text)
+      return to && to !== from ? [{ from, to }] : []
+    })
+  )
+}
+
+/**
+ * SVG path for an arrow link, bent to one side so it does not run along
+ * the tree connections
+ */
+export function getArrowPath(from: NodePosition, to: NodePosition): string {
+  const dx = to.x + to.width / 2 - (from.x + from.width / 2)
+  const dy = to.y + to.height / 2 - (from.y + from.height / 2)
+  const start = getBoxEdgePoint(from, dx, dy)
+  const end = getBoxEdgePoint(to, -dx, -dy)
+
+  const length = Math.hypot(dx, dy) || 1
+  const bend = Math.min(60, length / 4)
+  const controlX = (start.x + end.x) / 2 - (dy / length) * bend
+  const controlY = (start.y + end.y) / 2 + (dx / length) * bend
+  return `M ${start.x} ${start.y} Q ${controlX} ${controlY} ${end.x} ${end.y}`
+}
+
+/**
+ * Where to draw the hidden-children badge of a collapsed node
+ * (on the edge its children would leave from)
+ */
+export function getBadgeAnchor(pos: NodePosition): { x: number; y: number } {
+  switch (pos.direction) {
+    case 'left':
+      return { x: pos.x, y: pos.y + pos.height / 2 }
+    case 'down':
+      return { x: pos.x + pos.width / 2, y: pos.y + pos.height }
+    case 'radial':
+      if (pos.angle !== undefined) {
+        return getBoxEdgePoint(pos, Math.cos(pos.angle), Math.sin(pos.angle))
+      }
+      return { x: pos.x + pos.width, y: pos.y + pos.height / 2 }
+    case 'right':
+    default:
+      return { x: pos.x + pos.width, y: pos.y + pos.height / 2 }
+  }
+}
+
+/**
+ * SVG path outlining a node in its shape (Mermaid shapes; rounded box by
+ * default)
+ */
+export function getNodeShapePath(pos: NodePosition): string {
+  const { x, y, width: w, height: h } = pos
+
+  switch (pos.node.shape) {
+    case 'square':
+      return roundedRectPath(x, y, w, h, 0)
+    case 'rounded':
+      return roundedRectPath(x, y, w, h, Math.min(12, h / 2))
+    case 'circle':
+      return roundedRectPath(x, y, w, h, h / 2)
+    case 'hexagon': {
+      const inset = Math.min(12, h / 2)
+      return `M ${x + inset} ${y} H ${x + w - inset} L ${x + w} ${y + h / 2} L ${x + w - inset} ${y + h} H ${x + inset} L ${x} ${y + h / 2} Z`
+    }
+    case 'cloud':
+      return cloudPath(x, y, w, h)
+    case 'bang':
+      return bangPath(x, y, w, h)
+    default:
+      return roundedRectPath(x, y, w, h, 6)
+  }
+}
+
+function roundedRectPath(x: number, y: number, w: number, h: number, r: number): string {
+  if (r <= 0) return `M ${x} ${y} H ${x + w} V ${y + h} H ${x} Z`
+  return [
+    `M ${x + r} ${y}`,
+    `H ${x + w - r}`,
+    `A ${r} ${r} 0 0 1 ${x + w} ${y + r}`,
+    `V ${y + h - r}`,
+    `A ${r} ${r} 0 0 1 ${x + w - r} ${y + h}`,
+    `H ${x + r}`,
+    `A ${r} ${r} 0 0 1 ${x} ${y + h - r}`,
+    `V ${y + r}`,
+    `A ${r} ${r} 0 0 1 ${x + r} ${y}`,
+    'Z',
+  ].join(' ')
+}
+
+// Scalloped outline: bumps along the top and bottom, one on each side
+function cloudPath(x: number, y: number, w: number, h: number): string {
+  const bumps = Math.max(2, Math.round(w / 30))
+  const step = w / bumps
+  const parts = [`M ${x} ${y}`]
+  for (let i = 1; i <= bumps; i++) {
+    parts.push(`A ${step / 2} ${step / 3} 0 0 1 ${x + i * step} ${y}`)
+  }
+  parts.push(`A ${h / 4} ${h / 2} 0 0 1 ${x + w} ${y + h}`)
+  for (let i = bumps - 1; i >= 0; i--) {
+    parts.push(`A ${step / 2} ${step / 3} 0 0 1 ${x + i * step} ${y + h}`)
+  }
+  parts.push(`A ${h / 4} ${h / 2} 0 0 1 ${x} ${y}`, 'Z')
+  return parts.join(' ')
+}
+
+// Zigzag outline pointing outwards on every side
+function bangPath(x: number, y: number, w: number, h: number): string {
+  const spike = 5
+  const across = Math.max(2, Math.round(w / 24))
+  const down = Math.max(1, Math.round(h / 24))
+  const points: string[] = []
+
+  for (let i = 0; i < across; i++) {
+    points.push(`${x + (i * w) / across} ${y}`, `${x + ((i + 0.5) * w) / across} ${y - spike}`)
+  }
+  for (let i = 0; i < down; i++) {
+    points.push(`${x + w} ${y + (i * h) / down}`, `${x + w + spike} ${y + ((i + 0.5) * h) / down}`)
+  }
+  for (let i = across; i > 0; i--) {
+    points.push(`${x + (i * w) / across} ${y + h}`, `${x + ((i - 0.5) * w) / across} ${y + h + spike}`)
+  }
+  for (let i = down; i > 0; i--) {
+    points.push(`${x} ${y + (i * h) / down}`, `${x - spike} ${y + ((i - 0.5) * h) / down}`)
+  }
+
+  return `M ${points.join(' L ')} Z`
+}
@@ -10,56 +10,286 @@
  *   Child 1
  *     Grandchild 1
  *     Grandchild 2
- *   Child 2
+ *   Child 2 [+]
+ *     Hidden grandchild
  * ```
+ *
+ * A trailing `[+]` marks a node as collapsed (its children are hidden).
+ * Lines starting with `> ` are a note on the node above them (at any
+ * indentation); consecutive note lines form one multi-line note.
+ * `@color <css color>`, `@link <url>` and `@arrow <node text>` lines set
+ * the text color, hyperlink and arrow links of the node above;
+ * `@label <text>` and `@marker <id>` lines tag it.
+ *
+ * A leading backslash makes a line a node even if it looks like a note or
+ * attribute (`\> quote`, `\@color me`), and `\[+]` at the end of a line is
+ * literal text rather than the collapsed marker. `treeToText` adds these
+ * escapes where a node's text needs them.
  */
 
 import type { MindmapNode } from '@/schemas'
 
-interface ParsedLine {
+const NOTE_PATTERN = /^>(?: (.*))?$/
+const ATTRIBUTE_PATTERN = /^@(color|link|arrow|label|marker)\s+(\S.*)$/
+
+const COLLAPSED_MARKER = '[+]'
+// The marker, unless escaped with a backslash
+const COLLAPSED_MARKER_PATTERN = /(?<!\\)\s*\[\+\]\s*$/
+const ESCAPED_MARKER_PATTERN = /\\(\[\+\])$/
+const ESCAPE = '\\'
+
+/**
+ * Whether a line adds details (note, color, ...) to the node above instead
+ * of creating a node
+ */
+function isDecoration(content: string): boolean {
+  return NOTE_PATTERN.test(content) || ATTRIBUTE_PATTERN.test(content)
+}
+
+function applyDecoration(content: string, attributes: NodeAttributes): NodeAttributes {
+  const note = content.match(NOTE_PATTERN)
+  if (note) {
+    const line = note[1] ?? ''
+    return {
+      ...attributes,
+      note: attributes.note === undefined ? line : `${attributes.note}\n${line}`,
+    }
+  }
+
+  const [, name, value] = content.match(ATTRIBUTE_PATTERN) ?? []
+  switch (name) {
+    case 'color':
+      return { ...attributes, color: value.trim() }
+    case 'link':
+      return { ...attributes, link: value.trim() }
+    case 'arrow':
+      return { ...attributes, arrows: [...(attributes.arrows ?? []), value.trim()] }
+    case 'label':
+      return { ...attributes, labels: [...(attributes.labels ?? []), value.trim()] }
+    case 'marker':
+      return { ...attributes, markers: [...(attributes.markers ?? []), value.trim()] }
+    default:
+      return attributes
+  }
+}
+
+/**
+ * Split the collapsed marker off a line's text and remove escapes
+ */
+function splitCollapsedMarker(text: string): { text: string; collapsed: boolean } {
+  const stripped = text.replace(COLLAPSED_MARKER_PATTERN, '')
+  if (stripped === text || stripped === '') {
+    return { text: text.replace(ESCAPED_MARKER_PATTERN, '$1'), collapsed: false }
+  }
+  return { text: stripped.replace(ESCAPED_MARKER_PATTERN, '$1'), collapsed: true }
+}
+
+/**
+ * Escape node text that would otherwise read as a decoration line or end
+ * in the collapsed marker
+ */
+function escapeNodeText(text: string): string {
+  const escaped = text.startsWith(ESCAPE) || isDecoration(text) ? ESCAPE + text : text
+  return escaped.endsWith(COLLAPSED_MARKER)
+    ? `${escaped.slice(0, -COLLAPSED_MARKER.length)}${ESCAPE}${COLLAPSED_MARKER}`
+    : escaped
+}
+
+/**
+ * Diagnostic reported while parsing
+ *
+ * Lines and columns are 1-based so they can be shown to users as-is.
+ */
+export type ParseDiagnosticSeverity = 'error' | 'warning' | 'info'
+
+export type ParseDiagnosticCode =
+  | 'tabIndent'
+  | 'oddIndent'
+  | 'skippedLevel'
+  | 'extraRoot'
+  | 'missingHeader'
+  | 'orphanDecoration'
+
+export interface ParseDiagnostic {
+  code: ParseDiagnosticCode
+  severity: ParseDiagnosticSeverity
+  line: number
+  column: number
+  message: string
+  fix?: string
+  // Values interpolated into the message (e.g. for translated messages)
+  params?: Record<string, string | number>
+}
+
+export interface ParseResult {
+  tree: MindmapNode
+  diagnostics: ParseDiagnostic[]
+  // 1-based source line of each node, keyed by node ID
+  lines: Map<string, number>
+}
+
+export interface ParseOptions {
+  // Tree from the previous parse; matching nodes keep their IDs
+  previous?: MindmapNode | null
+  // Carry collapsed flags over from the previous tree (for formats that
+  // cannot store them in the text)
+  keepCollapsed?: boolean
+}
+
+// Node fields other than the tree structure
+export type NodeAttributes = Partial<Omit<MindmapNode, 'id' | 'text' | 'children'>>
+
+/**
+ * A source line that becomes one node
+ *
+ * `level` only has to be comparable between lines: a line becomes a child
+ * of the closest earlier line with a lower level.
+ */
+export interface OutlineLine {
   text: string
   level: number
   lineNumber: number
+  column: number
+  // Extra node fields read from the line (collapsed, shape, ...)
+  attributes?: NodeAttributes
+}
+
+export interface BuildTreeOptions extends ParseOptions {
+  // Suggested indentation (in spaces) for a child of a line at this level;
+  // undefined when indenting cannot fix the line at `childLevel`
+  childIndent: (level: number, childLevel: number) => number | undefined
+  // Report lines indented more than one level below their parent
+  checkSkippedLevels?: boolean
 }
 
 /**
  * Parse indentation-based text into a tree structure
  */
-export function parseTextToTree(text: string): MindmapNode {
+export function parseTextToTree(
+  text: string,
+  options: ParseOptions = {}
+): MindmapNode {
+  return parseTextWithDiagnostics(text, options).tree
+}
+
+/**
+ * Parse indentation-based text and report every line that could not be
+ * placed exactly as written.
+ *
+ * The resulting tree is the same as `parseTextToTree`; diagnostics only
+ * explain where the parser had to fall back.
+ */
+export function parseTextWithDiagnostics(
+  text: string,
+  options: ParseOptions = {}
+): ParseResult {
   const lines = text.split('\n')
-  const parsedLines: ParsedLine[] = []
+  const parsedLines: OutlineLine[] = []
+  const diagnostics: ParseDiagnostic[] = []
 
   // Parse each line to get text and indentation level
   lines.forEach((line, index) => {
     // Skip empty lines
     if (line.trim() === '') return
 
+    const lineNumber = index + 1
+
+    const content = line.trim()
+    const isEscaped = content.startsWith(ESCAPE)
+    if (!isEscaped && isDecoration(content)) {
+      const target = parsedLines[parsedLines.length - 1]
+      if (!target) {
+        diagnostics.push({
+          code: 'orphanDecoration',
+          severity: 'warning',
+          line: lineNumber,
+          column: line.length - line.trimStart().length + 1,
+          message: `"${content}" comes before any node; ignored`,
+          fix: 'Move it below the node it belongs to',
+          params: { text: content },
+        })
+        return
+      }
+
+      target.attributes = applyDecoration(content, target.attributes ?? {})
+      return
+    }
+
     // Count leading spaces (2 spaces = 1 level)
     const match = line.match(/^(\s*)/)
-    const spaces = match ? match[1].length : 0
+    const indent = match ? match[1] : ''
+    const spaces = indent.length
     const level = Math.floor(spaces / 2)
-    const text = line.trim()
+    const { text, collapsed } = splitCollapsedMarker(isEscaped ? content.slice(1) : content)
+
+    const tabIndex = indent.indexOf('\t')
+    if (tabIndex !== -1) {
+      diagnostics.push({
+        code: 'tabIndent',
+        severity: 'warning',
+        line: lineNumber,
+        column: tabIndex + 1,
+        message: `Tab character in indentation; counted as ${spaces} space(s), giving level ${level}`,
+        fix: 'Replace tabs with 2 spaces per level',
+        params: { spaces, level },
+      })
+    } else if (spaces % 2 !== 0) {
+      diagnostics.push({
+        code: 'oddIndent',
+        severity: 'warning',
+        line: lineNumber,
+        column: 1,
+        message: `Indentation of ${spaces} spaces is not a multiple of 2; treated as level ${level}`,
+        fix: `Indent with ${level * 2} or ${(level + 1) * 2} spaces`,
+        params: { spaces, level, lower: level * 2, upper: (level + 1) * 2 },
+      })
+    }
 
     parsedLines.push({
       text,
       level,
-      lineNumber: index + 1,
+      lineNumber,
+      column: spaces + 1,
+      ...(collapsed && { attributes: { collapsed: true } }),
     })
   })
 
+  return buildTreeFromLines(parsedLines, diagnostics, {
+    ...options,
+    childIndent: (level) => (level + 1) * 2,
+    checkSkippedLevels: true,
+  })
+}
+
+/**
+ * Build a tree from outline lines
+ *
+ * Shared by every indentation-based format. Structural problems (extra
+ * roots, skipped levels) are appended to `diagnostics`.
+ */
+export function buildTreeFromLines(
+  parsedLines: OutlineLine[],
+  diagnostics: ParseDiagnostic[],
+  options: BuildTreeOptions
+): ParseResult {
   if (parsedLines.length === 0) {
     return {
-      id: generateId(),
-      text: 'Empty Mindmap',
-      children: [],
+      tree: {
+        id: ROOT_ID,
+        text: 'Empty Mindmap',
+        children: [],
+      },
+      diagnostics,
+      lines: new Map(),
     }
   }
 
   // Build tree structure
   const root: MindmapNode = {
-    id: generateId(),
+    id: ROOT_ID,
     text: parsedLines[0].text,
     children: [],
+    ...parsedLines[0].attributes,
   }
 
   const stack: { node: MindmapNode; level: number }[] = [
@@ -67,28 +297,117 @@ export function parseTextToTree(text: string): MindmapNode {
   ]
 
   for (let i = 1; i < parsedLines.length; i++) {
-    const { text, level } = parsedLines[i]
+    const { text, level, lineNumber, column, attributes } = parsedLines[i]
+
+    // Find parent node
+    while (stack.length > 1 && stack[stack.length - 1].level >= level) {
+      stack.pop()
+    }
+
+    const parentEntry = stack[stack.length - 1]
+    const occurrence = parentEntry.node.children.filter(
+      (child) => child.text === text
+    ).length
 
     const newNode: MindmapNode = {
-      id: generateId(),
+      id: deriveId(parentEntry.node.id, text, occurrence),
       text,
       children: [],
+      ...attributes,
     }
 
-    // Find parent node
-    while (stack.length > 1 && stack[stack.length - 1].level >= level) {
-      stack.pop()
+    const childIndent = options.childIndent(parentEntry.level, level)
+
+    if (stack.length === 1 && level <= parentEntry.level) {
+      // Only one root is allowed, so extra top-level lines become its children
+      diagnostics.push({
+        code: 'extraRoot',
+        severity: 'warning',
+        line: lineNumber,
+        column,
+        message: `"${text}" is at the root level; attached as a child of "${root.text}"`,
+        ...(childIndent !== undefined && { fix: `Indent this line by ${childIndent} spaces` }),
+        params: { text, parent: root.text, spaces: childIndent ?? 0 },
+      })
+    } else if (options.checkSkippedLevels && level > parentEntry.level + 1) {
+      diagnostics.push({
+        code: 'skippedLevel',
+        severity: 'warning',
+        line: lineNumber,
+        column,
+        message: `"${text}" is indented ${level - parentEntry.level} levels deeper than "${parentEntry.node.text}"; attached as its direct child`,
+        ...(childIndent !== undefined && { fix: `Indent this line by ${childIndent} spaces` }),
+        params: {
+          text,
+          parent: parentEntry.node.text,
+          levels: level - parentEntry.level,
+          spaces: childIndent ?? 0,
+        },
+      })
     }
 
     // Add as child to parent
-    const parent = stack[stack.length - 1].node
-    parent.children.push(newNode)
+    parentEntry.node.children.push(newNode)
 
     // Add to stack for potential children
     stack.push({ node: newNode, level })
   }
 
-  return root
+  const tree = options.previous
+    ? reconcileIds(root, options.previous, options)
+    : ensureUniqueIds(root, new Set())
+
+  // Nodes are created in line order, so a pre-order walk lines up with them
+  const nodeLines = new Map<string, number>()
+  const walk = (node: MindmapNode) => {
+    nodeLines.set(node.id, parsedLines[nodeLines.size].lineNumber)
+    node.children.forEach(walk)
+  }
+  walk(tree)
+
+  return { tree, diagnostics, lines: nodeLines }
+}
+
+/**
+ * Set or clear the collapsed marker on a 1-based line of text
+ */
+export function setLineCollapsed(
+  text: string,
+  lineNumber: number,
+  collapsed: boolean
+): string {
+  const lines = text.split('\n')
+  const line = lines[lineNumber - 1]
+  if (line === undefined) return text
+
+  const stripped = line.replace(COLLAPSED_MARKER_PATTERN, '').trimEnd()
+  lines[lineNumber - 1] = collapsed ? `${stripped} ${COLLAPSED_MARKER}` : stripped
+  return lines.join('\n')
+}
+
+/**
+ * Return a copy of the tree with one node's collapsed flag toggled
+ */
+export function toggleNodeCollapsed(node: MindmapNode, id: string): MindmapNode {
+  if (node.id === id) {
+    return { ...node, collapsed: !node.collapsed }
+  }
+  return {
+    ...node,
+    children: node.children.map((child) => toggleNodeCollapsed(child, id)),
+  }
+}
+
+/**
+ * Get the character offset where a 1-based line/column starts in text
+ */
+export function getLineOffset(text: string, line: number, column: number = 1): number {
+  const lines = text.split('\n')
+  let offset = 0
+  for (let i = 0; i < line - 1 && i < lines.length; i++) {
+    offset += lines[i].length + 1
+  }
+  return Math.min(offset + column - 1, text.length)
 }
 
 /**
@@ -96,7 +415,26 @@ export function parseTextToTree(text: string): MindmapNode {
  */
 export function treeToText(node: MindmapNode, level: number = 0): string {
   const indent = '  '.repeat(level)
-  let result = `${indent}${node.text}`
+  const marker = node.collapsed ? ` ${COLLAPSED_MARKER}` : ''
+  let result = `${indent}${escapeNodeText(node.text)}${marker}`
+
+  if (node.note !== undefined) {
+    const noteLines = node.note.split('\n').map((line) =>
+      line ? `${indent}  > ${line}` : `${indent}  >`
+    )
+    result += '\n' + noteLines.join('\n')
+  }
+  if (node.color) result += `\n${indent}  @color ${node.color}`
+  if (node.link) result += `\n${indent}  @link ${node.link}`
+  for (const arrow of node.arrows ?? []) {
+    result += `\n${indent}  @arrow ${arrow}`
+  }
+  for (const label of node.labels ?? []) {
+    result += `\n${indent}  @label ${label}`
+  }
+  for (const marker of node.markers ?? []) {
+    result += `\n${indent}  @marker ${marker}`
+  }
 
   if (node.children.length > 0) {
     const childTexts = node.children.map((child) =>
@@ -109,127 +447,122 @@ export function treeToText(node: MindmapNode, level: number = 0): string {
 }
 
 /**
- * Calculate node positions for rendering
+ * ID Generation
+ *
+ * IDs are derived from the parent ID, the node text and how many earlier
+ * siblings share that text, so parsing the same text always yields the same
+ * IDs. `reconcileIds` then carries IDs over from the previous tree so nodes
+ * keep their identity while siblings are inserted, reordered or renamed.
  */
-export interface NodePosition {
-  node: MindmapNode
-  x: number
-  y: number
-  width: number
-  height: number
-  children: NodePosition[]
-}
+const ROOT_ID = 'node_root'
 
-const NODE_HEIGHT = 40
-const NODE_PADDING = 20
-const LEVEL_GAP = 150
-const SIBLING_GAP = 20
-
-export function calculateLayout(node: MindmapNode): NodePosition {
-  return layoutNode(node, 0, 0)
+function deriveId(parentId: string, text: string, occurrence: number): string {
+  return `node_${hashString(`${parentId}/${text}#${occurrence}`)}`
 }
 
-function layoutNode(
-  node: MindmapNode,
-  x: number,
-  startY: number
-): NodePosition {
-  const width = Math.max(100, node.text.length * 8 + NODE_PADDING * 2)
-  const height = NODE_HEIGHT
+// FNV-1a 32-bit hash, rendered in base 36
+function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
 
-  // Layout children first to calculate total height
-  const childPositions: NodePosition[] = []
-  let currentY = startY
+/**
+ * Copy IDs from a previous tree onto a freshly parsed one
+ *
+ * Children are matched per parent: first by identical text (in order), then
+ * the remaining unmatched children are paired by position, which keeps the
+ * ID of a renamed node. Unmatched nodes keep their derived IDs.
+ */
+export function reconcileIds(
+  next: MindmapNode,
+  previous: MindmapNode,
+  options: Pick<ParseOptions, 'keepCollapsed'> = {}
+): MindmapNode {
+  return ensureUniqueIds(
+    reconcileNode(next, previous, previous.id, options.keepCollapsed ?? false),
+    new Set()
+  )
+}
 
-  for (const child of node.children) {
-    const childPos = layoutNode(child, x + LEVEL_GAP, currentY)
-    childPositions.push(childPos)
-    currentY = childPos.y + getSubtreeHeight(childPos) + SIBLING_GAP
-  }
+function reconcileNode(
+  next: MindmapNode,
+  previous: MindmapNode | null,
+  id: string,
+  keepCollapsed: boolean
+): MindmapNode {
+  const prevChildren = previous?.children ?? []
+  const matches: (MindmapNode | null)[] = next.children.map(() => null)
+  const taken = new Set<number>()
+
+  // Pass 1: same text
+  next.children.forEach((child, i) => {
+    const index = prevChildren.findIndex(
+      (prev, j) => !taken.has(j) && prev.text === child.text
+    )
+    if (index !== -1) {
+      taken.add(index)
+      matches[i] = prevChildren[index]
+    }
+  })
 
-  // Calculate node Y position (center of children)
-  let y = startY
-  if (childPositions.length > 0) {
-    const firstChildY = childPositions[0].y
-    const lastChild = childPositions[childPositions.length - 1]
-    const lastChildBottom = lastChild.y + getSubtreeHeight(lastChild)
-    y = (firstChildY + lastChildBottom) / 2 - height / 2
-  }
+  // Pass 2: pair leftovers in order (renamed nodes)
+  const leftovers = prevChildren.filter((_, j) => !taken.has(j))
+  next.children.forEach((_, i) => {
+    if (!matches[i] && leftovers.length > 0) {
+      matches[i] = leftovers.shift()!
+    }
+  })
 
   return {
-    node,
-    x,
-    y,
-    width,
-    height,
-    children: childPositions,
+    ...next,
+    id,
+    ...(keepCollapsed && previous?.collapsed && { collapsed: true }),
+    children: next.children.map((child, i) => {
+      const match = matches[i]
+      return reconcileNode(child, match, match ? match.id : child.id, keepCollapsed)
+    }),
   }
 }
 
-function getSubtreeHeight(pos: NodePosition): number {
-  if (pos.children.length === 0) {
-    return pos.height
-  }
-
-  const lastChild = pos.children[pos.children.length - 1]
-  return lastChild.y + getSubtreeHeight(lastChild) - pos.y
-}
-
 /**
- * Get all node positions as flat array for rendering
+ * Give a tree built elsewhere (e.g. by an importer) the IDs that parsing
+ * its outline text would produce
  */
-export function flattenPositions(root: NodePosition): NodePosition[] {
-  const result: NodePosition[] = [root]
-
-  for (const child of root.children) {
-    result.push(...flattenPositions(child))
+export function assignIds(node: MindmapNode): MindmapNode {
+  const derive = (current: MindmapNode, id: string): MindmapNode => {
+    const seen = new Map<string, number>()
+    return {
+      ...current,
+      id,
+      children: current.children.map((child) => {
+        const occurrence = seen.get(child.text) ?? 0
+        seen.set(child.text, occurrence + 1)
+        return derive(child, deriveId(id, child.text, occurrence))
+      }),
+    }
   }
-
-  return result
+  return ensureUniqueIds(derive(node, ROOT_ID), new Set())
 }
 
-/**
- * Calculate bounding box for the entire tree
- */
-export function getBoundingBox(root: NodePosition): {
-  minX: number
-  minY: number
-  maxX: number
-  maxY: number
-  width: number
-  height: number
-} {
-  const positions = flattenPositions(root)
-
-  let minX = Infinity
-  let minY = Infinity
-  let maxX = -Infinity
-  let maxY = -Infinity
-
-  for (const pos of positions) {
-    minX = Math.min(minX, pos.x)
-    minY = Math.min(minY, pos.y)
-    maxX = Math.max(maxX, pos.x + pos.width)
-    maxY = Math.max(maxY, pos.y + pos.height)
+// Guard against duplicates (e.g. a hash collision) by suffixing later copies
+function ensureUniqueIds(node: MindmapNode, seen: Set<string>): MindmapNode {
+  let id = node.id
+  for (let n = 1; seen.has(id); n++) {
+    id = `${node.id}_${n}`
   }
+  seen.add(id)
 
   return {
-    minX,
-    minY,
-    maxX,
-    maxY,
-    width: maxX - minX,
-    height: maxY - minY,
+    ...node,
+    id,
+    children: node.children.map((child) => ensureUniqueIds(child, seen)),
   }
 }
 
-/**
- * Generate unique ID for nodes
- */
-function generateId(): string {
-  return `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-}
-
 /**
  * Count total nodes in tree
  */
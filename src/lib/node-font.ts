@@ -0,0 +1,87 @@
+/**
+ * Node Font
+ *
+ * Map labels are set in Inter (Latin subset, bundled in src/assets/fonts),
+ * falling back to the system UI font for other scripts. The app loads the
+ * font before its first render, so labels are measured in the font they
+ * are drawn in. Standalone exports embed the same files as data URIs and
+ * look the same on machines without Inter.
+ */
+
+import regularUrl from '@/assets/fonts/inter-latin-400-normal.woff2?url'
+import semiboldUrl from '@/assets/fonts/inter-latin-600-normal.woff2?url'
+import { NODE_FONT_NAME } from '@/lib/mindmap-layout'
+
+// Characters covered by the bundled subset
+const UNICODE_RANGE =
+  'U+0000-00FF,U+0131,U+0152-0153,U+02BB-02BC,U+02C6,U+02DA,U+02DC,U+0304,U+0308,U+0329,' +
+  'U+2000-206F,U+20AC,U+2122,U+2191,U+2193,U+2212,U+2215,U+FEFF,U+FFFD'
+
+const FONT_FILES = [
+  { weight: 400, url: regularUrl },
+  { weight: 600, url: semiboldUrl },
+]
+
+let loading: Promise<void> | null = null
+let fontFaces = ''
+
+/**
+ * Load the node font into the document
+ *
+ * Loads once. Never rejects: without the font, labels are measured and
+ * drawn in the fallback font.
+ */
+export function loadNodeFont(): Promise<void> {
+  if (!loading) {
+    loading = Promise.all(FONT_FILES.map(loadFontFile))
+      .then((rules) => {
+        fontFaces = rules.join('\n')
+      })
+      .catch((error) => {
+        console.error('Failed to load node font:', error)
+      })
+  }
+  return loading
+}
+
+/**
+ * @font-face rules with the node font inlined (empty until it is loaded)
+ */
+export function getNodeFontFaces(): string {
+  return fontFaces
+}
+
+/**
+ * @font-face rule for one weight of the node font
+ */
+export function toFontFaceRule(weight: number, src: string): string {
+  return (
+    `@font-face{font-family:${NODE_FONT_NAME};font-style:normal;font-weight:${weight};` +
+    `src:url(${src}) format("woff2");unicode-range:${UNICODE_RANGE}}`
+  )
+}
+
+// Add a font file to the document and return its inlined @font-face rule
+async function loadFontFile({ weight, url }: { weight: number; url: string }): Promise<string> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+  const data = await response.arrayBuffer()
+
+  const face = new FontFace(NODE_FONT_NAME, data, {
+    weight: String(weight),
+    unicodeRange: UNICODE_RANGE,
+  })
+  document.fonts.add(await face.load())
+
+  return toFontFaceRule(weight, `data:font/woff2;base64,${toBase64(new Uint8Array(data))}`)
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
@@ -0,0 +1,284 @@
+/**
+ * PDF Export
+ *
+ * Renders a tree to a PDF entirely in the browser. The map is drawn from
+ * the same layout as the preview (rasterized once through the image
+ * export) and placed either:
+ * - fit: scaled onto a single page, or
+ * - tile: at print size (1 CSS px = 0.75 pt) across as many pages as
+ *   needed. Neighbouring pages overlap by a strip marked with dashed
+ *   lines, so printed sheets can be trimmed and taped together.
+ *
+ * Page orientation is chosen to suit the map. An optional cover page shows
+ * the title and a subtitle (e.g. the last update date).
+ */
+
+import type { MindmapNode } from '@/schemas'
+import type { LayoutOptions } from '@/lib/mindmap-layout'
+import { renderMindmapRaster } from '@/lib/raster-export'
+import { createPdf, formatNumber, type PdfImage, type PdfPage } from '@/lib/pdf'
+
+export type PaperSize = 'a4' | 'letter'
+
+export type PdfPageMode = 'fit' | 'tile'
+
+export const PAPER_SIZES: readonly PaperSize[] = ['a4', 'letter']
+
+export const PDF_PAGE_MODES: readonly PdfPageMode[] = ['fit', 'tile']
+
+// Portrait sizes in points
+const PAPER_DIMENSIONS: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+}
+
+export interface PdfExportOptions extends LayoutOptions {
+  paper: PaperSize
+  pages: PdfPageMode
+  // Document title (stored in the file properties)
+  title?: string
+  // Adds a cover page
+  cover?: { title: string; subtitle?: string }
+}
+
+/**
+ * Where the map goes on one page
+ *
+ * The page's printable area shows the scaled map starting at
+ * (offsetX, offsetY) points from the map's top-left corner.
+ */
+export interface PdfPagePlacement {
+  width: number
+  height: number
+  // Points per layout unit
+  scale: number
+  offsetX: number
+  offsetY: number
+  column: number
+  row: number
+  columns: number
+  rows: number
+}
+
+// Blank border kept on every page (printers cannot print to the edge)
+const PAGE_MARGIN = 36
+// Strip repeated on neighbouring tiles
+const TILE_OVERLAP = 18
+// Print size for tiles: CSS pixels are 1/96 inch, points 1/72 inch
+const TILE_SCALE = 0.75
+// Fitted maps are never enlarged beyond twice the print size
+const MAX_FIT_SCALE = TILE_SCALE * 2
+// Pixels per layout unit in the embedded map image
+const IMAGE_SCALE = 2
+// Space around the map in the embedded image, in layout units
+const IMAGE_MARGIN = 10
+
+/**
+ * Lay out the pages for a map of the given size (in layout units)
+ */
+export function planPdfPages(
+  mapWidth: number,
+  mapHeight: number,
+  paper: PaperSize,
+  mode: PdfPageMode
+): PdfPagePlacement[] {
+  const portrait = PAPER_DIMENSIONS[paper]
+  const landscape = { width: portrait.height, height: portrait.width }
+  const printable = (page: { width: number; height: number }) => ({
+    width: page.width - PAGE_MARGIN * 2,
+    height: page.height - PAGE_MARGIN * 2,
+  })
+
+  if (mode === 'fit') {
+    const fitScale = (page: { width: number; height: number }) => {
+      const area = printable(page)
+      return Math.min(area.width / mapWidth, area.height / mapHeight, MAX_FIT_SCALE)
+    }
+    const page = fitScale(landscape) > fitScale(portrait) ? landscape : portrait
+    const area = printable(page)
+    const scale = fitScale(page)
+
+    // Centered on the page
+    return [{
+      ...page,
+      scale,
+      offsetX: -(area.width - mapWidth * scale) / 2,
+      offsetY: -(area.height - mapHeight * scale) / 2,
+      column: 0,
+      row: 0,
+      columns: 1,
+      rows: 1,
+    }]
+  }
+
+  const page = mapWidth >= mapHeight ? landscape : portrait
+  const area = printable(page)
+  const count = (size: number, available: number) =>
+    Math.max(1, Math.ceil((size - TILE_OVERLAP) / (available - TILE_OVERLAP)))
+  const columns = count(mapWidth * TILE_SCALE, area.width)
+  const rows = count(mapHeight * TILE_SCALE, area.height)
+
+  // Row by row, the way pages are laid out on a table
+  const placements: PdfPagePlacement[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      placements.push({
+        ...page,
+        scale: TILE_SCALE,
+        offsetX: column * (area.width - TILE_OVERLAP),
+        offsetY: row * (area.height - TILE_OVERLAP),
+        column,
+        row,
+        columns,
+        rows,
+      })
+    }
+  }
+  return placements
+}
+
+/**
+ * Content stream that draws the map image (`/Im0`) on one page
+ */
+export function buildMapPageContent(
+  placement: PdfPagePlacement,
+  mapWidth: number,
+  mapHeight: number
+): string {
+  const { width, height, scale, offsetX, offsetY, column, row, columns, rows } = placement
+  const area = { width: width - PAGE_MARGIN * 2, height: height - PAGE_MARGIN * 2 }
+  const imageWidth = mapWidth * scale
+  const imageHeight = mapHeight * scale
+  const n = formatNumber
+
+  // PDF's origin is the bottom-left corner: place the image so that the
+  // offset point sits at the top-left of the printable area
+  const imageX = PAGE_MARGIN - offsetX
+  const imageY = height - PAGE_MARGIN + offsetY - imageHeight
+
+  const ops = [
+    'q',
+    `${n(PAGE_MARGIN)} ${n(PAGE_MARGIN)} ${n(area.width)} ${n(area.height)} re W n`,
+    `${n(imageWidth)} 0 0 ${n(imageHeight)} ${n(imageX)} ${n(imageY)} cm`,
+    '/Im0 Do',
+    'Q',
+  ]
+
+  // Overlap marks: where the neighbouring sheet's area begins
+  const top = height - PAGE_MARGIN
+  const right = width - PAGE_MARGIN
+  const marks: [number, number, number, number][] = []
+  if (column > 0) marks.push([PAGE_MARGIN + TILE_OVERLAP, PAGE_MARGIN, PAGE_MARGIN + TILE_OVERLAP, top])
+  if (column < columns - 1) marks.push([right - TILE_OVERLAP, PAGE_MARGIN, right - TILE_OVERLAP, top])
+  if (row > 0) marks.push([PAGE_MARGIN, top - TILE_OVERLAP, right, top - TILE_OVERLAP])
+  if (row < rows - 1) marks.push([PAGE_MARGIN, PAGE_MARGIN + TILE_OVERLAP, right, PAGE_MARGIN + TILE_OVERLAP])
+
+  if (marks.length > 0) {
+    ops.push('q', '0.6 G', '0.5 w', '[4 3] 0 d')
+    for (const [x1, y1, x2, y2] of marks) {
+      ops.push(`${n(x1)} ${n(y1)} m ${n(x2)} ${n(y2)} l S`)
+    }
+    ops.push('Q')
+  }
+
+  return ops.join('\n')
+}
+
+/**
+ * Render a tree as a PDF document
+ *
+ * Throws when the browser cannot draw the map.
+ */
+export async function renderMindmapPdf(
+  tree: MindmapNode,
+  options: PdfExportOptions
+): Promise<Blob> {
+  const { paper, pages: mode, title, cover, ...layoutOptions } = options
+
+  const raster = await renderMindmapRaster(tree, {
+    ...layoutOptions,
+    format: 'jpeg',
+    scale: IMAGE_SCALE,
+    background: 'white',
+    margin: IMAGE_MARGIN,
+  })
+  const mapWidth = raster.width / raster.scale
+  const mapHeight = raster.height / raster.scale
+
+  const images: PdfImage[] = [{
+    data: new Uint8Array(await raster.blob.arrayBuffer()),
+    width: raster.width,
+    height: raster.height,
+  }]
+  const placements = planPdfPages(mapWidth, mapHeight, paper, mode)
+  const pages: PdfPage[] = placements.map((placement) => ({
+    width: placement.width,
+    height: placement.height,
+    content: buildMapPageContent(placement, mapWidth, mapHeight),
+  }))
+
+  if (cover) {
+    const { width, height } = placements[0]
+    images.push(await renderCoverImage(cover.title, cover.subtitle, width, height))
+    pages.unshift({
+      width,
+      height,
+      content: `q ${formatNumber(width)} 0 0 ${formatNumber(height)} 0 0 cm /Im1 Do Q`,
+    })
+  }
+
+  const pdf = createPdf(pages, images, { title, creationDate: new Date() })
+  return new Blob([pdf as BlobPart], { type: 'application/pdf' })
+}
+
+// Cover text is drawn as an image, so titles in any script print correctly
+async function renderCoverImage(
+  title: string,
+  subtitle: string | undefined,
+  pageWidth: number,
+  pageHeight: number
+): Promise<PdfImage> {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(pageWidth * IMAGE_SCALE)
+  canvas.height = Math.round(pageHeight * IMAGE_SCALE)
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas is not available')
+  }
+
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.textAlign = 'center'
+  context.textBaseline = 'middle'
+
+  // Shrink long titles to fit the printable width
+  const maxWidth = (pageWidth - PAGE_MARGIN * 2) * IMAGE_SCALE
+  let fontSize = 28 * IMAGE_SCALE
+  do {
+    context.font = `600 ${fontSize}px system-ui, sans-serif`
+    fontSize -= IMAGE_SCALE
+  } while (context.measureText(title).width > maxWidth && fontSize > 8 * IMAGE_SCALE)
+
+  context.fillStyle = '#111827'
+  context.fillText(title, canvas.width / 2, canvas.height * 0.4, maxWidth)
+
+  if (subtitle) {
+    context.font = `${12 * IMAGE_SCALE}px system-ui, sans-serif`
+    context.fillStyle = '#6b7280'
+    context.fillText(subtitle, canvas.width / 2, canvas.height * 0.4 + 40 * IMAGE_SCALE, maxWidth)
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/jpeg', 0.92)
+  )
+  if (!blob) {
+    throw new Error('Could not encode the cover page')
+  }
+
+  return {
+    data: new Uint8Array(await blob.arrayBuffer()),
+    width: canvas.width,
+    height: canvas.height,
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * PDF Writer
+ *
+ * Minimal writer for PDF 1.4 files whose pages draw JPEG images and simple
+ * vector marks. Images are stored once (embedded as-is with DCTDecode) and
+ * can be drawn on any page, so tiled output does not repeat the picture.
+ *
+ * Page content is raw PDF content-stream operators in points, with the
+ * origin at the bottom-left. Images are referenced as `/Im0`, `/Im1`, ...
+ * in the order given. Text is not supported (no fonts are embedded).
+ */
+
+export interface PdfImage {
+  // Baseline JPEG file data (RGB)
+  data: Uint8Array
+  // Size in pixels
+  width: number
+  height: number
+}
+
+export interface PdfPage {
+  // Size in points (1/72 inch)
+  width: number
+  height: number
+  // Content stream operators
+  content: string
+}
+
+export interface PdfInfo {
+  title?: string
+  creationDate?: Date
+}
+
+/**
+ * Build a PDF file
+ */
+export function createPdf(pages: PdfPage[], images: PdfImage[], info: PdfInfo = {}): Uint8Array {
+  if (pages.length === 0) {
+    throw new Error('A PDF needs at least one page')
+  }
+
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data
+    chunks.push(bytes)
+    length += bytes.length
+  }
+
+  // Object numbers: catalog, page tree, info, images, then page + content pairs
+  const CATALOG = 1
+  const PAGES = 2
+  const INFO = 3
+  const imageObject = (index: number) => 4 + index
+  const pageObject = (index: number) => 4 + images.length + index * 2
+
+  const startObject = (number: number) => {
+    offsets[number] = length
+    write(`${number} 0 obj\n`)
+  }
+
+  const writeStream = (dictionary: string, data: Uint8Array) => {
+    write(`<< ${dictionary} /Length ${data.length} >>\nstream\n`)
+    write(data)
+    write('\nendstream\nendobj\n')
+  }
+
+  // Header, with a binary comment so transfer tools treat the file as binary
+  write('%PDF-1.4\n')
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+
+  startObject(CATALOG)
+  write(`<< /Type /Catalog /Pages ${PAGES} 0 R >>\nendobj\n`)
+
+  const kids = pages.map((_, index) => `${pageObject(index)} 0 R`).join(' ')
+  startObject(PAGES)
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`)
+
+  const infoEntries = ['/Producer (mindmap)']
+  if (info.title) infoEntries.push(`/Title ${encodeTextString(info.title)}`)
+  if (info.creationDate) infoEntries.push(`/CreationDate (${formatDate(info.creationDate)})`)
+  startObject(INFO)
+  write(`<< ${infoEntries.join(' ')} >>\nendobj\n`)
+
+  images.forEach((image, index) => {
+    startObject(imageObject(index))
+    writeStream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+      image.data
+    )
+  })
+
+  const xObjects = images.map((_, index) => `/Im${index} ${imageObject(index)} 0 R`).join(' ')
+  pages.forEach((page, index) => {
+    const number = pageObject(index)
+    startObject(number)
+    write(
+      `<< /Type /Page /Parent ${PAGES} 0 R ` +
+        `/MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] ` +
+        `/Resources << /XObject << ${xObjects} >> >> /Contents ${number + 1} 0 R >>\nendobj\n`
+    )
+    startObject(number + 1)
+    writeStream('', encoder.encode(page.content))
+  })
+
+  // Cross-reference table: one 20-byte entry per object
+  const xrefOffset = length
+  const objectCount = pageObject(pages.length)
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+  for (let number = 1; number < objectCount; number++) {
+    write(`${String(offsets[number]).padStart(10, '0')} 00000 n \n`)
+  }
+  write(
+    `trailer\n<< /Size ${objectCount} /Root ${CATALOG} 0 R /Info ${INFO} 0 R >>\n` +
+      `startxref\n${xrefOffset}\n%%EOF\n`
+  )
+
+  const result = new Uint8Array(length)
+  let position = 0
+  for (const chunk of chunks) {
+    result.set(chunk, position)
+    position += chunk.length
+  }
+  return result
+}
+
+/**
+ * Format a number for content streams (at most 3 decimals)
+ */
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000)
+}
+
+// UTF-16BE hex string, so titles in any script survive
+function encodeTextString(value: string): string {
+  let hex = 'FEFF'
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase()
+  }
+  return `<${hex}>`
+}
+
+// D:YYYYMMDDHHmmSSZ
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return (
+    `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  )
+}
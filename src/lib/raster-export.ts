@@ -0,0 +1,130 @@
+/**
+ * Raster Export
+ *
+ * Renders a tree to PNG or JPEG by drawing the standalone SVG export onto
+ * an offscreen canvas. The whole map is drawn (not just the visible part of
+ * the preview), so large maps are limited only by the canvas size the
+ * browser allows: when the requested scale would exceed it, the scale is
+ * lowered to fit.
+ */
+
+import type { MindmapNode } from '@/schemas'
+import { renderMindmapSvg } from '@/lib/svg-export'
+import type { LayoutOptions } from '@/lib/mindmap-layout'
+
+export type RasterFormat = 'png' | 'jpeg'
+
+export type RasterBackground = 'transparent' | 'white' | 'theme'
+
+export const RASTER_FORMATS: readonly RasterFormat[] = ['png', 'jpeg']
+
+export const RASTER_SCALES = [1, 2, 3, 4] as const
+
+export const RASTER_BACKGROUNDS: readonly RasterBackground[] = ['transparent', 'white', 'theme']
+
+export interface RasterExportOptions extends LayoutOptions {
+  format: RasterFormat
+  // Pixels per layout unit, 1-4
+  scale: number
+  background: RasterBackground
+  // Space around the map, in layout units (default: 40)
+  margin?: number
+}
+
+export interface RasterExport {
+  blob: Blob
+  width: number
+  height: number
+  // Scale actually used (lower than requested for very large maps)
+  scale: number
+}
+
+// Limits that hold across current browsers (Safari has the smallest area)
+const MAX_CANVAS_SIDE = 16384
+const MAX_CANVAS_AREA = 16384 * 4096
+
+const JPEG_QUALITY = 0.92
+
+/**
+ * Highest scale up to the requested one that fits the canvas limits
+ */
+export function fitRasterScale(width: number, height: number, scale: number): number {
+  const sideLimit = MAX_CANVAS_SIDE / Math.max(width, height, 1)
+  const areaLimit = Math.sqrt(MAX_CANVAS_AREA / Math.max(width * height, 1))
+  return Math.min(scale, sideLimit, areaLimit)
+}
+
+/**
+ * CSS color to paint behind the map, or null for none
+ *
+ * JPEG has no transparency, so a transparent background becomes white.
+ */
+export function resolveBackground(background: RasterBackground, format: RasterFormat): string | null {
+  switch (background) {
+    case 'theme':
+      return (
+        getComputedStyle(document.documentElement).getPropertyValue('--background').trim() ||
+        '#ffffff'
+      )
+    case 'white':
+      return '#ffffff'
+    case 'transparent':
+    default:
+      return format === 'jpeg' ? '#ffffff' : null
+  }
+}
+
+/**
+ * Render a tree as a PNG or JPEG image
+ *
+ * Throws when the browser cannot draw or encode the image.
+ */
+export async function renderMindmapRaster(
+  tree: MindmapNode,
+  options: RasterExportOptions
+): Promise<RasterExport> {
+  const { format, background, margin, scale: requestedScale, ...layoutOptions } = options
+  const { svg, width, height } = renderMindmapSvg(tree, { ...layoutOptions, padding: margin })
+
+  const scale = fitRasterScale(width, height, requestedScale)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(width * scale)
+  canvas.height = Math.round(height * scale)
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas is not available')
+  }
+
+  const fill = resolveBackground(background, format)
+  if (fill) {
+    context.fillStyle = fill
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+  try {
+    const image = await loadImage(url)
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, `image/${format}`, JPEG_QUALITY)
+  )
+  if (!blob) {
+    throw new Error('Could not encode the image')
+  }
+
+  return { blob, width: canvas.width, height: canvas.height, scale }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Could not render the map image'))
+    image.src = url
+  })
+}
@@ -0,0 +1,77 @@
+/**
+ * Share Links
+ *
+ * Inline share links carry the whole document in the URL fragment
+ * (`/embed#m=<payload>`), so they open on any machine without a server or
+ * a saved copy. The payload is the `MindmapShare` JSON, compressed with raw
+ * DEFLATE and encoded as base64url. Fragments are never sent to a server.
+ */
+
+import { MindmapShareSchema, type MindmapShare } from '@/schemas'
+import { deflateRaw, inflateRaw } from '@/lib/compression'
+
+// Fragment parameter holding the payload
+const SHARE_PARAM = 'm'
+
+// Longer links may be cut off by chat apps, mail clients and the like
+export const SHARE_URL_WARN_LENGTH = 2000
+// Longer links are unreliable in browsers and most tools
+export const SHARE_URL_MAX_LENGTH = 32000
+
+export type ShareUrlStatus = 'ok' | 'long' | 'tooLong'
+
+/**
+ * Encode a document as a share payload
+ */
+export async function encodeShare(share: MindmapShare): Promise<string> {
+  const json = JSON.stringify(MindmapShareSchema.parse(share))
+  return toBase64Url(await deflateRaw(new TextEncoder().encode(json)))
+}
+
+/**
+ * Decode and validate a share payload
+ *
+ * Throws when the payload is corrupt or not a shared document.
+ */
+export async function decodeShare(payload: string): Promise<MindmapShare> {
+  const json = new TextDecoder().decode(await inflateRaw(fromBase64Url(payload)))
+  return MindmapShareSchema.parse(JSON.parse(json))
+}
+
+/**
+ * Build the inline share URL for a document
+ */
+export async function buildShareUrl(origin: string, share: MindmapShare): Promise<string> {
+  return `${origin}/embed#${SHARE_PARAM}=${await encodeShare(share)}`
+}
+
+/**
+ * Read the share payload from a URL fragment (with or without `#`)
+ */
+export function getSharePayload(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM)
+}
+
+/**
+ * Whether a share URL is short enough to pass around safely
+ */
+export function getShareUrlStatus(url: string): ShareUrlStatus {
+  if (url.length > SHARE_URL_MAX_LENGTH) return 'tooLong'
+  if (url.length > SHARE_URL_WARN_LENGTH) return 'long'
+  return 'ok'
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked: spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
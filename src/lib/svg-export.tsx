@@ -0,0 +1,75 @@
+/**
+ * SVG Export
+ *
+ * Renders a tree as a standalone SVG document, drawn by the same scene
+ * component as the preview. The image covers the whole map (bounding box
+ * plus padding) regardless of the current pan and zoom.
+ *
+ * All styling is written as presentation attributes, and the node font is
+ * embedded as @font-face data URIs, so the file displays the same outside
+ * the app (labels are wrapped and boxes sized for that font).
+ */
+
+import { renderToStaticMarkup } from 'react-dom/server'
+import type { MindmapNode } from '@/schemas'
+import {
+  calculateLayout,
+  flattenPositions,
+  getBoundingBox,
+  NODE_FONT_FAMILY,
+  type LayoutOptions,
+} from '@/lib/mindmap-layout'
+import { getNodeFontFaces } from '@/lib/node-font'
+import MindmapScene from '@/components/MindmapScene'
+
+export interface SvgExportOptions extends LayoutOptions {
+  // Space around the map, in px (default: 40)
+  padding?: number
+  // Document title, stored as the SVG <title>
+  title?: string
+  // @font-face rules to embed (default: the loaded node font)
+  fontFaces?: string
+}
+
+export interface SvgExport {
+  svg: string
+  width: number
+  height: number
+}
+
+const DEFAULT_PADDING = 40
+
+/**
+ * Render a tree as a standalone SVG document
+ */
+export function renderMindmapSvg(tree: MindmapNode, options: SvgExportOptions = {}): SvgExport {
+  const { padding = DEFAULT_PADDING, title, fontFaces = getNodeFontFaces(), ...layoutOptions } = options
+  const root = calculateLayout(tree, layoutOptions)
+  const box = getBoundingBox(root)
+  const width = Math.ceil(box.width + padding * 2)
+  const height = Math.ceil(box.height + padding * 2)
+
+  const markup = renderToStaticMarkup(
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox={`${box.minX - padding} ${box.minY - padding} ${width} ${height}`}
+      fontFamily={NODE_FONT_FAMILY}
+    >
+      {title && <title>{title}</title>}
+      {fontFaces && (
+        <defs>
+          <style>{fontFaces}</style>
+        </defs>
+      )}
+      <MindmapScene positions={flattenPositions(root)} arrowMarkerId="arrow" />
+    </svg>
+  )
+
+  return {
+    svg: `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`,
+    width,
+    height,
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Text Measurement
+ *
+ * Measures and wraps node labels for the layout engine.
+ * Uses canvas `measureText` with the real font where available, and falls
+ * back to a character-width estimate (also handy in tests, where jsdom has
+ * no canvas).
+ */
+
+export interface FontSpec {
+  size: number
+  family: string
+  weight?: number
+}
+
+/**
+ * Returns the rendered width (px) of a single line of text
+ */
+export type TextMeasurer = (text: string, font: FontSpec) => number
+
+// Hangul, CJK ideographs, kana and full-width forms
+const WIDE_CHAR_PATTERN =
+  /[\u1100-\u11ff\u2e80-\u303f\u3040-\u30ff\u3130-\u318f\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uff60\uffe0-\uffe6]/
+
+function toCssFont(font: FontSpec): string {
+  return `${font.weight ?? 400} ${font.size}px ${font.family}`
+}
+
+/**
+ * Estimate text width from character classes
+ *
+ * Wide (CJK) characters count as a full em, everything else as ~0.6em.
+ */
+export const estimateTextWidth: TextMeasurer = (text, font) => {
+  const narrowRatio = (font.weight ?? 400) >= 600 ? 0.65 : 0.6
+  let width = 0
+  for (const char of text) {
+    width += WIDE_CHAR_PATTERN.test(char) ? font.size : font.size * narrowRatio
+  }
+  return width
+}
+
+/**
+ * Create a measurer backed by a canvas 2D context
+ *
+ * Returns null when no canvas is available (SSR, jsdom).
+ */
+export function createCanvasMeasurer(): TextMeasurer | null {
+  if (typeof OffscreenCanvas === 'undefined') return null
+
+  const context = new OffscreenCanvas(1, 1).getContext('2d')
+  if (!context) return null
+
+  return (text, font) => {
+    context.font = toCssFont(font)
+    return context.measureText(text).width
+  }
+}
+
+let defaultMeasurer: TextMeasurer | null = null
+
+/**
+ * Get the default measurer (canvas if available, estimate otherwise)
+ */
+export function getDefaultMeasurer(): TextMeasurer {
+  if (!defaultMeasurer) {
+    defaultMeasurer = createCanvasMeasurer() ?? estimateTextWidth
+  }
+  return defaultMeasurer
+}
+
+// Words, single wide characters and runs of whitespace
+const TOKEN_PATTERN = new RegExp(
+  `${WIDE_CHAR_PATTERN.source}|\\s+|(?:(?!${WIDE_CHAR_PATTERN.source})\\S)+`,
+  'g'
+)
+
+/**
+ * Wrap text into lines no wider than maxWidth
+ *
+ * Breaks at spaces and between CJK characters; words longer than a line
+ * are broken by character.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  font: FontSpec,
+  measure: TextMeasurer = getDefaultMeasurer()
+): string[] {
+  const tokens = text.match(TOKEN_PATTERN) ?? []
+  const lines: string[] = []
+  let line = ''
+
+  const pushLine = () => {
+    const trimmed = line.trimEnd()
+    if (trimmed) lines.push(trimmed)
+    line = ''
+  }
+
+  for (const token of tokens) {
+    if (measure(line + token, font) <= maxWidth) {
+      line += token
+      continue
+    }
+
+    // Whitespace at a break is dropped
+    if (/^\s+$/.test(token)) {
+      pushLine()
+      continue
+    }
+
+    pushLine()
+
+    if (measure(token, font) <= maxWidth) {
+      line = token
+      continue
+    }
+
+    // Break an overlong word by character
+    for (const char of token) {
+      if (line && measure(line + char, font) > maxWidth) {
+        pushLine()
+      }
+      line += char
+    }
+  }
+
+  pushLine()
+  return lines.length > 0 ? lines : ['']
+}
@@ -0,0 +1,228 @@
+/**
+ * Tidy Tree Placement
+ *
+ * Walker's algorithm in the linear-time form described by Buchheim, Jünger
+ * and Leipert ("Improving Walker's Algorithm to Run in Linear Time").
+ *
+ * Works on one axis only: given a layered tree where every node has a
+ * breadth (its size across the layers), it returns the center of every
+ * node on that axis so that:
+ * - nodes in the same layer never overlap (subtree contours are packed
+ *   against each other instead of whole bounding boxes)
+ * - parents are centered over their first and last child
+ * - small subtrees between larger ones are spaced evenly
+ *
+ * The caller decides what the axis is (y for left-to-right trees, x for
+ * top-down trees) and where each layer goes on the other axis.
+ */
+
+export interface TidyNode {
+  breadth: number
+  children: TidyNode[]
+}
+
+export interface TidyOptions {
+  // Space between adjacent siblings
+  siblingGap: number
+  // Space between adjacent nodes that are not siblings
+  subtreeGap: number
+}
+
+interface WalkerNode {
+  source: TidyNode
+  parent: WalkerNode | null
+  children: WalkerNode[]
+  // Index among siblings
+  number: number
+  prelim: number
+  mod: number
+  shift: number
+  change: number
+  thread: WalkerNode | null
+  // Ancestor used to attribute shifts (null: the node itself)
+  ancestor: WalkerNode | null
+}
+
+/**
+ * Compute the center of every node along the tidy axis
+ *
+ * The root is centered on 0. Runs in O(n) and is deterministic.
+ */
+export function computeTidyCenters<T extends TidyNode>(
+  root: T,
+  options: TidyOptions
+): Map<T, number> {
+  const walkerRoot = buildWalkerTree(root, null, 0)
+  firstWalk(walkerRoot, options)
+
+  const centers = new Map<T, number>()
+  const offset = -walkerRoot.prelim
+  secondWalk(walkerRoot, offset, centers as Map<TidyNode, number>)
+  return centers
+}
+
+function buildWalkerTree(
+  source: TidyNode,
+  parent: WalkerNode | null,
+  number: number
+): WalkerNode {
+  const node: WalkerNode = {
+    source,
+    parent,
+    children: [],
+    number,
+    prelim: 0,
+    mod: 0,
+    shift: 0,
+    change: 0,
+    thread: null,
+    ancestor: null,
+  }
+  node.children = source.children.map((child, i) => buildWalkerTree(child, node, i))
+  return node
+}
+
+function leftSibling(v: WalkerNode): WalkerNode | null {
+  return v.parent && v.number > 0 ? v.parent.children[v.number - 1] : null
+}
+
+function nextLeft(v: WalkerNode): WalkerNode | null {
+  return v.children.length > 0 ? v.children[0] : v.thread
+}
+
+function nextRight(v: WalkerNode): WalkerNode | null {
+  return v.children.length > 0 ? v.children[v.children.length - 1] : v.thread
+}
+
+// Required center-to-center distance between two neighbours in a layer
+function separation(a: WalkerNode, b: WalkerNode, options: TidyOptions): number {
+  const gap = a.parent === b.parent ? options.siblingGap : options.subtreeGap
+  return a.source.breadth / 2 + gap + b.source.breadth / 2
+}
+
+function firstWalk(v: WalkerNode, options: TidyOptions): void {
+  const sibling = leftSibling(v)
+
+  if (v.children.length === 0) {
+    v.prelim = sibling ? sibling.prelim + separation(sibling, v, options) : 0
+    return
+  }
+
+  let defaultAncestor = v.children[0]
+  for (const child of v.children) {
+    firstWalk(child, options)
+    defaultAncestor = apportion(child, defaultAncestor, options)
+  }
+  executeShifts(v)
+
+  const first = v.children[0]
+  const last = v.children[v.children.length - 1]
+  const midpoint = (first.prelim + last.prelim) / 2
+
+  if (sibling) {
+    v.prelim = sibling.prelim + separation(sibling, v, options)
+    v.mod = v.prelim - midpoint
+  } else {
+    v.prelim = midpoint
+  }
+}
+
+/**
+ * Push the subtree of v away from the subtrees to its left until their
+ * contours no longer overlap
+ */
+function apportion(
+  v: WalkerNode,
+  defaultAncestor: WalkerNode,
+  options: TidyOptions
+): WalkerNode {
+  const sibling = leftSibling(v)
+  if (!sibling) return defaultAncestor
+
+  // i = inside, o = outside; p = right (v's side), m = left
+  let vip: WalkerNode = v
+  let vop: WalkerNode = v
+  let vim: WalkerNode = sibling
+  let vom: WalkerNode = v.parent!.children[0]
+  let sip = vip.mod
+  let sop = vop.mod
+  let sim = vim.mod
+  let som = vom.mod
+
+  let nextVim = nextRight(vim)
+  let nextVip = nextLeft(vip)
+
+  while (nextVim && nextVip) {
+    vim = nextVim
+    vip = nextVip
+    vom = nextLeft(vom)!
+    vop = nextRight(vop)!
+    vop.ancestor = v
+
+    const shift = vim.prelim + sim - (vip.prelim + sip) + separation(vim, vip, options)
+    if (shift > 0) {
+      moveSubtree(getAncestor(vim, v, defaultAncestor), v, shift)
+      sip += shift
+      sop += shift
+    }
+
+    sim += vim.mod
+    sip += vip.mod
+    som += vom.mod
+    sop += vop.mod
+
+    nextVim = nextRight(vim)
+    nextVip = nextLeft(vip)
+  }
+
+  if (nextVim && !nextRight(vop)) {
+    vop.thread = nextVim
+    vop.mod += sim - sop
+  }
+
+  if (nextVip && !nextLeft(vom)) {
+    vom.thread = nextVip
+    vom.mod += sip - som
+    defaultAncestor = v
+  }
+
+  return defaultAncestor
+}
+
+function getAncestor(
+  vim: WalkerNode,
+  v: WalkerNode,
+  defaultAncestor: WalkerNode
+): WalkerNode {
+  const ancestor = vim.ancestor ?? vim
+  return ancestor.parent === v.parent ? ancestor : defaultAncestor
+}
+
+function moveSubtree(wm: WalkerNode, wp: WalkerNode, shift: number): void {
+  const subtrees = wp.number - wm.number
+  wp.change -= shift / subtrees
+  wp.shift += shift
+  wm.change += shift / subtrees
+  wp.prelim += shift
+  wp.mod += shift
+}
+
+// Spread the shifts recorded by moveSubtree over the children in between
+function executeShifts(v: WalkerNode): void {
+  let shift = 0
+  let change = 0
+  for (let i = v.children.length - 1; i >= 0; i--) {
+    const w = v.children[i]
+    w.prelim += shift
+    w.mod += shift
+    change += w.change
+    shift += w.shift + change
+  }
+}
+
+function secondWalk(v: WalkerNode, m: number, centers: Map<TidyNode, number>): void {
+  centers.set(v.source, v.prelim + m)
+  for (const child of v.children) {
+    secondWalk(child, m + v.mod, centers)
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Tree Diff
+ *
+ * Structural diff between two versions of a mindmap. Node IDs are not
+ * stable across separately parsed documents, so nodes are matched by text
+ * and position:
+ *
+ * 1. Children of matched nodes that keep their text are matched, top-down.
+ * 2. Nodes whose text is unique among the unmatched nodes of both trees are
+ *    matched across parents (moved).
+ * 3. Remaining children of matched nodes are paired by text similarity, or
+ *    by position when one node was replaced by one other (renamed).
+ *
+ * The steps repeat until nothing new matches. A node that was renamed and
+ * moved at once shows as removed and added. Among siblings that stay under
+ * the same parent, the fewest needed to explain the new order are marked
+ * reordered.
+ */
+
+import type { MindmapNode } from '@/schemas'
+
+export type NodeChange = 'added' | 'removed' | 'renamed' | 'moved' | 'reordered'
+
+export const NODE_CHANGES: readonly NodeChange[] = ['added', 'removed', 'renamed', 'moved', 'reordered']
+
+export interface TreeChange {
+  type: NodeChange
+  // Node in the old tree (unset for added nodes)
+  before?: MindmapNode
+  // Node in the new tree (unset for removed nodes)
+  after?: MindmapNode
+}
+
+export interface TreeDiff {
+  before: MindmapNode
+  after: MindmapNode
+  changes: TreeChange[]
+  // Old node → new node, for every node present in both trees
+  matches: Map<MindmapNode, MindmapNode>
+}
+
+// Change shown on a node of the overlay tree
+export interface NodeDiff {
+  change: NodeChange
+  // Text before a rename
+  previousText?: string
+}
+
+export interface DiffOverlay {
+  // New tree with removed nodes put back where they were
+  tree: MindmapNode
+  // Changes by node ID (unchanged nodes are absent)
+  nodes: Map<string, NodeDiff>
+}
+
+// Minimum text similarity (0-1) for a rename among several candidates
+const RENAME_SIMILARITY = 0.5
+
+// Prefix of overlay node IDs for removed nodes (they may clash with new IDs)
+const REMOVED_ID_PREFIX = 'removed:'
+
+// Shown change when a node has several (a rename also keeps its old text)
+const CHANGE_PRIORITY: Record<NodeChange, number> = {
+  reordered: 0,
+  renamed: 1,
+  moved: 2,
+  added: 3,
+  removed: 3,
+}
+
+/**
+ * Diff two trees
+ */
+export function diffTrees(before: MindmapNode, after: MindmapNode): TreeDiff {
+  const beforeParents = indexParents(before)
+  const afterParents = indexParents(after)
+  const beforeNodes = [...beforeParents.keys()]
+  const afterNodes = [...afterParents.keys()]
+
+  const matches = new Map<MindmapNode, MindmapNode>()
+  const reverse = new Map<MindmapNode, MindmapNode>()
+  const match = (b: MindmapNode, a: MindmapNode) => {
+    matches.set(b, a)
+    reverse.set(a, b)
+  }
+  match(before, after)
+
+  // Step 1: same text under matched parents (document order, so new
+  // matches are visited in the same pass)
+  const matchByText = (): boolean => {
+    let found = false
+    for (const b of beforeNodes) {
+      const a = matches.get(b)
+      if (!a) continue
+      const free = a.children.filter((child) => !reverse.has(child))
+      for (const child of b.children) {
+        if (matches.has(child)) continue
+        const i = free.findIndex((candidate) => candidate.text === child.text)
+        if (i < 0) continue
+        match(child, free.splice(i, 1)[0])
+        found = true
+      }
+    }
+    return found
+  }
+
+  // Step 2: unique text anywhere
+  const matchMoves = (): boolean => {
+    const olds = beforeNodes.filter((node) => !matches.has(node))
+    const news = afterNodes.filter((node) => !reverse.has(node))
+    const oldCounts = countTexts(olds)
+    const newCounts = countTexts(news)
+    let found = false
+    for (const b of olds) {
+      if (oldCounts.get(b.text) !== 1 || newCounts.get(b.text) !== 1) continue
+      match(b, news.find((node) => node.text === b.text)!)
+      found = true
+    }
+    return found
+  }
+
+  // Step 3: renames among the unmatched children of matched nodes
+  const matchRenames = (): boolean => {
+    let found = false
+    for (const b of beforeNodes) {
+      const a = matches.get(b)
+      if (!a) continue
+      const olds = b.children.filter((child) => !matches.has(child))
+      const news = a.children.filter((child) => !reverse.has(child))
+      if (olds.length === 0 || news.length === 0) continue
+
+      // One node replaced by one other in the same place
+      if (
+        olds.length === 1 &&
+        news.length === 1 &&
+        b.children.indexOf(olds[0]) === a.children.indexOf(news[0])
+      ) {
+        match(olds[0], news[0])
+        found = true
+        continue
+      }
+
+      const candidates = olds
+        .flatMap((old) => news.map((node) => ({ old, node, score: textSimilarity(old.text, node.text) })))
+        .filter((candidate) => candidate.score >= RENAME_SIMILARITY)
+        .sort((x, y) => y.score - x.score)
+      for (const { old, node } of candidates) {
+        if (matches.has(old) || reverse.has(node)) continue
+        match(old, node)
+        found = true
+      }
+    }
+    return found
+  }
+
+  while (matchByText() || matchMoves() || matchRenames()) {
+    // Repeat: each step can give the others new parents to work under
+  }
+
+  const changes: TreeChange[] = []
+  for (const node of beforeNodes) {
+    if (!matches.has(node)) changes.push({ type: 'removed', before: node })
+  }
+  for (const node of afterNodes) {
+    const old = reverse.get(node)
+    if (!old) {
+      changes.push({ type: 'added', after: node })
+      continue
+    }
+    if (old.text !== node.text) changes.push({ type: 'renamed', before: old, after: node })
+
+    const oldParent = beforeParents.get(old)
+    const newParent = afterParents.get(node)
+    if (oldParent && newParent && matches.get(oldParent) !== newParent) {
+      changes.push({ type: 'moved', before: old, after: node })
+    }
+
+    // Children that stayed under this node, in their new order; the ones
+    // outside the longest run in old order were reordered
+    const stayed = node.children.filter((child) => {
+      const previous = reverse.get(child)
+      return previous !== undefined && beforeParents.get(previous) === old
+    })
+    const kept = longestIncreasingRun(stayed.map((child) => old.children.indexOf(reverse.get(child)!)))
+    stayed.forEach((child, i) => {
+      if (!kept.has(i)) changes.push({ type: 'reordered', before: reverse.get(child), after: child })
+    })
+  }
+
+  return { before, after, changes, matches }
+}
+
+/**
+ * Number of changes of each kind
+ */
+export function summarizeDiff(diff: TreeDiff): Record<NodeChange, number> {
+  const summary = Object.fromEntries(NODE_CHANGES.map((change) => [change, 0])) as Record<NodeChange, number>
+  for (const change of diff.changes) summary[change.type]++
+  return summary
+}
+
+/**
+ * Tree and per-node changes for showing a diff on the new tree
+ *
+ * Removed nodes are put back under their old parent, after the sibling
+ * they used to follow, with IDs prefixed so they cannot clash.
+ */
+export function buildDiffOverlay(diff: TreeDiff): DiffOverlay {
+  const nodes = new Map<string, NodeDiff>()
+  const reverse = new Map([...diff.matches].map(([b, a]) => [a, b]))
+
+  for (const { type, before, after } of diff.changes) {
+    if (!after) continue
+    const current = nodes.get(after.id)
+    const change = current && CHANGE_PRIORITY[current.change] > CHANGE_PRIORITY[type] ? current.change : type
+    const previousText = type === 'renamed' ? before!.text : current?.previousText
+    nodes.set(after.id, previousText === undefined ? { change } : { change, previousText })
+  }
+
+  const ghost = (node: MindmapNode): MindmapNode => {
+    const id = REMOVED_ID_PREFIX + node.id
+    nodes.set(id, { change: 'removed' })
+    return {
+      ...node,
+      id,
+      // Descendants that survived are shown where they are now
+      children: node.children.filter((child) => !diff.matches.has(child)).map(ghost),
+    }
+  }
+
+  const build = (node: MindmapNode): MindmapNode => {
+    const children = node.children.map(build)
+    const old = reverse.get(node)
+    if (old) {
+      let at = 0
+      for (const child of old.children) {
+        const kept = diff.matches.get(child)
+        if (!kept) {
+          children.splice(at++, 0, ghost(child))
+        } else if (node.children.includes(kept)) {
+          at = children.findIndex((overlayChild) => overlayChild.id === kept.id) + 1
+        }
+      }
+    }
+    return { ...node, children }
+  }
+
+  return { tree: build(diff.after), nodes }
+}
+
+/**
+ * Similarity of two texts (0-1), from shared character pairs
+ */
+export function textSimilarity(a: string, b: string): number {
+  const x = a.trim().toLowerCase()
+  const y = b.trim().toLowerCase()
+  if (x === y) return 1
+  if (x.length < 2 || y.length < 2) return 0
+
+  const pairs = new Map<string, number>()
+  for (let i = 0; i < x.length - 1; i++) {
+    const pair = x.slice(i, i + 2)
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1)
+  }
+  let shared = 0
+  for (let i = 0; i < y.length - 1; i++) {
+    const pair = y.slice(i, i + 2)
+    const count = pairs.get(pair) ?? 0
+    if (count > 0) {
+      pairs.set(pair, count - 1)
+      shared++
+    }
+  }
+  return (2 * shared) / (x.length + y.length - 2)
+}
+
+// Parent of every node (null for the root), in document order
+function indexParents(root: MindmapNode): Map<MindmapNode, MindmapNode | null> {
+  const parents = new Map<MindmapNode, MindmapNode | null>()
+  const visit = (node: MindmapNode, parent: MindmapNode | null) => {
+    parents.set(node, parent)
+    node.children.forEach((child) => visit(child, node))
+  }
+  visit(root, null)
+  return parents
+}
+
+function countTexts(nodes: MindmapNode[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const node of nodes) counts.set(node.text, (counts.get(node.text) ?? 0) + 1)
+  return counts
+}
+
+// Indices of a longest strictly increasing subsequence
+function longestIncreasingRun(values: number[]): Set<number> {
+  // tails[k]: index of the smallest tail of an increasing run of length k + 1
+  const tails: number[] = []
+  const previous: number[] = []
+  values.forEach((value, i) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (values[tails[mid]] < value) low = mid + 1
+      else high = mid
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1
+    tails[low] = i
+  })
+
+  const run = new Set<number>()
+  for (let i = tails.at(-1) ?? -1; i >= 0; i = previous[i]) run.add(i)
+  return run
+}
@@ -0,0 +1,131 @@
+/**
+ * Version History
+ *
+ * Manual saves of a stored document record a version in `mindmap_versions`;
+ * autosaves record one at most every `AUTO_VERSION_INTERVAL_MS`, and saves
+ * that change nothing record none. Checkpoints are versions the user gave a
+ * name. Unnamed versions beyond `VERSION_LIMIT` per document are pruned,
+ * oldest first; checkpoints are kept until the document is deleted.
+ */
+
+import type { MindmapVersionEntity } from '@/db'
+import type { DocumentSnapshot, MindmapDocument } from '@/stores'
+import type { DocumentFormat } from '@/schemas'
+import { parseDocument } from '@/lib/formats'
+import { countNodes } from '@/lib/mindmap-parser'
+
+// Unnamed versions kept per document
+export const VERSION_LIMIT = 50
+// Minimum time between versions recorded by autosave
+export const AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000
+
+export interface VersionListItem {
+  version: MindmapVersionEntity
+  // Node count change from the previous version (undefined for the first)
+  delta?: number
+}
+
+/**
+ * Number of nodes in a document (0 if it does not parse)
+ */
+export function countDocumentNodes(content: string, format: DocumentFormat = 'outline'): number {
+  try {
+    return countNodes(parseDocument(content, format).tree)
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Version recording a saved document
+ */
+export function toVersion(
+  doc: MindmapDocument & { id: number },
+  name?: string
+): Omit<MindmapVersionEntity, 'id'> {
+  return {
+    mindmap_id: doc.id,
+    title: doc.title,
+    content: doc.content,
+    format: doc.format,
+    layout: doc.layout,
+    node_count: countDocumentNodes(doc.content, doc.format),
+    name: name?.trim() || undefined,
+    created_at: doc.updated_at,
+  }
+}
+
+/**
+ * Whether a version holds the same document state as a snapshot
+ */
+export function isSameVersion(version: MindmapVersionEntity, snapshot: DocumentSnapshot): boolean {
+  return (
+    version.title === snapshot.title &&
+    version.content === snapshot.content &&
+    version.format === snapshot.format &&
+    version.layout === snapshot.layout
+  )
+}
+
+/**
+ * Whether an autosave at `at` records a version, given the latest one
+ */
+export function isAutoVersionDue(
+  latest: MindmapVersionEntity | undefined,
+  at: string,
+  interval: number = AUTO_VERSION_INTERVAL_MS
+): boolean {
+  return !latest || Date.parse(at) - Date.parse(latest.created_at) >= interval
+}
+
+/**
+ * Versions newest first, each with its node count change
+ */
+export function listVersions(versions: MindmapVersionEntity[]): VersionListItem[] {
+  const sorted = [...versions].sort(
+    (a, b) => Date.parse(b.created_at) - Date.parse(a.created_at) || (b.id ?? 0) - (a.id ?? 0)
+  )
+  return sorted.map((version, i) => {
+    const previous = sorted[i + 1]
+    return { version, delta: previous && version.node_count - previous.node_count }
+  })
+}
+
+/**
+ * IDs of automatic versions beyond the limit (checkpoints are never pruned)
+ */
+export function getPrunableVersions(
+  versions: MindmapVersionEntity[],
+  limit: number = VERSION_LIMIT
+): number[] {
+  return listVersions(versions)
+    .map((item) => item.version)
+    .filter((version) => !version.name)
+    .slice(limit)
+    .map((version) => version.id!)
+}
+
+/**
+ * Document state a version restores
+ */
+export function versionToSnapshot(version: MindmapVersionEntity): DocumentSnapshot {
+  return {
+    title: version.title,
+    content: version.content,
+    format: version.format,
+    layout: version.layout,
+  }
+}
+
+/**
+ * New, unsaved document started from a version
+ */
+export function forkVersion(version: MindmapVersionEntity, title: string): MindmapDocument {
+  const now = new Date().toISOString()
+  return {
+    ...versionToSnapshot(version),
+    title,
+    created_at: now,
+    updated_at: now,
+  }
+}
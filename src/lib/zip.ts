@@ -0,0 +1,117 @@
+/**
+ * ZIP Reader
+ *
+ * Minimal reader for ZIP archives (XMind workbooks and similar).
+ * Entries are listed from the central directory and inflated on demand
+ * with the platform `DecompressionStream`, so no library is needed.
+ *
+ * Supports stored and deflated entries; ZIP64, encryption and multi-disk
+ * archives are not supported.
+ */
+
+import { inflateRaw } from '@/lib/compression'
+
+export interface ZipEntry {
+  name: string
+  size: number
+  // Read and decompress the entry data
+  read: () => Promise<Uint8Array>
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+/**
+ * List the files in a ZIP archive, keyed by path
+ *
+ * Throws when the data is not a readable ZIP archive.
+ */
+export function readZip(data: ArrayBuffer | Uint8Array): Map<string, ZipEntry> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const entries = new Map<string, ZipEntry>()
+
+  const end = findEndOfCentralDirectory(view)
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+
+    const flags = view.getUint16(offset + 8, true)
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const size = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+
+    // Bit 11: name is UTF-8 (otherwise CP437, which matches for ASCII)
+    const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength)
+    const name = new TextDecoder(flags & 0x800 ? 'utf-8' : 'latin1').decode(nameBytes)
+
+    if (!name.endsWith('/')) {
+      entries.set(name, {
+        name,
+        size,
+        read: () => readEntry(bytes, view, localOffset, method, compressedSize),
+      })
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Read a text entry (UTF-8)
+ */
+export async function readZipText(entry: ZipEntry): Promise<string> {
+  return new TextDecoder('utf-8').decode(await entry.read())
+}
+
+// The record sits at the end, followed by a comment of up to 64 KiB
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - 22
+  const first = Math.max(0, last - 0xffff)
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset
+    }
+  }
+  throw new Error('Not a ZIP archive')
+}
+
+async function readEntry(
+  bytes: Uint8Array,
+  view: DataView,
+  localOffset: number,
+  method: number,
+  compressedSize: number
+): Promise<Uint8Array> {
+  if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt ZIP entry')
+  }
+
+  const nameLength = view.getUint16(localOffset + 26, true)
+  const extraLength = view.getUint16(localOffset + 28, true)
+  const start = localOffset + 30 + nameLength + extraLength
+  const compressed = bytes.subarray(start, start + compressedSize)
+
+  switch (method) {
+    case METHOD_STORED:
+      return compressed.slice()
+    case METHOD_DEFLATE:
+      return inflateRaw(compressed)
+    default:
+      throw new Error(`Unsupported ZIP compression method ${method}`)
+  }
+}
@@ -12,6 +12,7 @@ import reportWebVitals from './reportWebVitals.ts'
 import { startMockServiceWorker } from './mocks/browser'
 import { queryClient } from '@/lib/query-client'
 import { API_CONFIG } from '@/api/config'
+import { loadNodeFont } from '@/lib/node-font'
 
 // Initialize i18n
 import '@/lib/i18n'
@@ -45,7 +46,8 @@ const rootElement = document.getElementById('app')
 if (rootElement && !rootElement.innerHTML) {
   const root = ReactDOM.createRoot(rootElement)
 
-  enableMocking().then(() => {
+  // Labels are measured in the node font, so it must be loaded first
+  Promise.all([enableMocking(), loadNodeFont()]).then(() => {
     root.render(
       <StrictMode>
         <QueryClientProvider client={queryClient}>
@@ -0,0 +1,12 @@
+/**
+ * <mind-map> Element Entry
+ *
+ * Entry of the standalone element bundle (`pnpm build:element`). Loading
+ * the script registers `<mind-map>`:
+ *
+ *   <script type="module" src="/mind-map.js"></script>
+ */
+
+import { defineMindMapElement } from '@/components/MindMapElement'
+
+defineMindMapElement()
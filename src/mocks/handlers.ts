@@ -16,13 +16,17 @@ import {
   MindmapCreateSchema,
   MindmapUpdateSchema,
   MindmapsListResponseSchema,
+  MindmapVersionSchema,
+  MindmapVersionsListResponseSchema,
   type Item,
   type User,
   type Mindmap,
+  type MindmapVersion,
   type HealthCheck,
   type HTTPValidationError,
 } from '@/schemas'
-import { db } from '@/db'
+import { db, deleteMindmapVersions, recordMindmapVersion, type MindmapVersionEntity } from '@/db'
+import { listVersions, toVersion } from '@/lib/versions'
 
 // Re-export types for convenience
 export type { Item, User } from '@/schemas'
@@ -51,6 +55,23 @@ function validationErrorResponse(error: ZodError) {
   return HttpResponse.json(formatValidationError(error), { status: 422 })
 }
 
+/**
+ * Map a stored version to its response format
+ */
+function toVersionResponse(version: MindmapVersionEntity): MindmapVersion {
+  return {
+    id: version.id!,
+    mindmap_id: version.mindmap_id,
+    title: version.title,
+    content: version.content,
+    format: version.format,
+    layout: version.layout,
+    node_count: version.node_count,
+    name: version.name,
+    created_at: version.created_at,
+  }
+}
+
 /**
  * Create HTTP error response
  */
@@ -405,6 +426,8 @@ export const handlers = [
       id: mindmap.id!,
       title: mindmap.title,
       content: mindmap.content,
+      format: mindmap.format,
+      layout: mindmap.layout,
       created_at: mindmap.created_at,
       updated_at: mindmap.updated_at,
     }))
@@ -434,6 +457,8 @@ export const handlers = [
       id: mindmap.id!,
       title: mindmap.title,
       content: mindmap.content,
+      format: mindmap.format,
+      layout: mindmap.layout,
       created_at: mindmap.created_at,
       updated_at: mindmap.updated_at,
     }
@@ -461,6 +486,8 @@ export const handlers = [
     const id = (await db.mindmaps.add({
       title: validatedData.title,
       content: validatedData.content,
+      format: validatedData.format,
+      layout: validatedData.layout,
       created_at: now,
       updated_at: now,
     })) as number
@@ -469,9 +496,12 @@ export const handlers = [
       id,
       title: validatedData.title,
       content: validatedData.content,
+      format: validatedData.format,
+      layout: validatedData.layout,
       created_at: now,
       updated_at: now,
     }
+    await recordMindmapVersion(toVersion({ ...newMindmap, id }))
 
     // Validate response with Zod
     const validated = MindmapSchema.parse(newMindmap)
@@ -506,11 +536,14 @@ export const handlers = [
 
     // Update in IndexedDB
     await db.mindmaps.put(updatedMindmap)
+    await recordMindmapVersion(toVersion({ ...updatedMindmap, id: mindmapId }))
 
     const responseMindmap: Mindmap = {
       id: updatedMindmap.id!,
       title: updatedMindmap.title,
       content: updatedMindmap.content,
+      format: updatedMindmap.format,
+      layout: updatedMindmap.layout,
       created_at: updatedMindmap.created_at,
       updated_at: updatedMindmap.updated_at,
     }
@@ -531,7 +564,45 @@ export const handlers = [
     }
 
     await db.mindmaps.delete(mindmapId)
+    await deleteMindmapVersions(mindmapId)
 
     return HttpResponse.json({ message: 'Mindmap deleted successfully' })
   }),
+
+  // Mindmaps - List versions (newest first)
+  http.get('/api/mindmaps/:id/versions', async ({ params, request }) => {
+    const mindmapId = Number(params.id)
+    const url = new URL(request.url)
+    const skip = parseInt(url.searchParams.get('skip') || '0')
+    const limit = parseInt(url.searchParams.get('limit') || '100')
+
+    if (!(await db.mindmaps.get(mindmapId))) {
+      return httpErrorResponse('Mindmap not found', 404)
+    }
+
+    const versions = await db.mindmap_versions.where('mindmap_id').equals(mindmapId).toArray()
+    const sorted = listVersions(versions).map((item) => item.version)
+
+    const response = {
+      versions: sorted.slice(skip, skip + limit).map(toVersionResponse),
+      total: sorted.length,
+    }
+
+    // Validate response with Zod
+    const validated = MindmapVersionsListResponseSchema.parse(response)
+    return HttpResponse.json(validated)
+  }),
+
+  // Mindmaps - Get single version
+  http.get('/api/mindmaps/:id/versions/:versionId', async ({ params }) => {
+    const version = await db.mindmap_versions.get(Number(params.versionId))
+
+    if (!version || version.mindmap_id !== Number(params.id)) {
+      return httpErrorResponse('Version not found', 404)
+    }
+
+    // Validate response with Zod
+    const validated = MindmapVersionSchema.parse(toVersionResponse(version))
+    return HttpResponse.json(validated)
+  }),
 ]
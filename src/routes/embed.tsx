@@ -2,56 +2,228 @@
  * Embed Route for Mindmap
  *
  * Read-only view of a mindmap for embedding in other websites.
- * Fetches mindmap by ID from API.
+ * Shows the document carried in the URL fragment (`#m=...`, see
+ * `lib/share`), or fetches a mindmap by ID from the API. Query parameters
+ * control the viewer (see `lib/embed`), and the host page can drive it with
+ * messages (see `lib/embed-messages`).
  */
 
-import { createFileRoute, useSearch } from '@tanstack/react-router'
-import { useEffect, useState } from 'react'
+import { createFileRoute, useLocation, useSearch } from '@tanstack/react-router'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import MindmapRenderer from '@/components/MindmapRenderer'
-import { parseTextToTree } from '@/lib/mindmap-parser'
+import MindmapRenderer, { type MindmapRendererHandle } from '@/components/MindmapRenderer'
+import { toggleNodeCollapsed } from '@/lib/mindmap-parser'
+import { parseDocument } from '@/lib/formats'
+import { decodeShare, getSharePayload } from '@/lib/share'
+import {
+  applyEmbedView,
+  findFocusNode,
+  parseEmbedOptions,
+  setEmbedFolding,
+  type EmbedOptions,
+} from '@/lib/embed'
+import { getHostOrigin, postEmbedEvent, readEmbedCommand } from '@/lib/embed-messages'
 import { useMindmap } from '@/api/services'
-import type { MindmapNode } from '@/schemas'
+import type {
+  EmbedCommand,
+  EmbedEvent,
+  EmbedTheme,
+  MindmapNode,
+  MindmapShare,
+} from '@/schemas'
 
 // Route search params for embed
-interface EmbedSearchParams {
+interface EmbedSearchParams extends EmbedOptions {
   id?: number
 }
 
 export const Route = createFileRoute('/embed')({
   validateSearch: (search: Record<string, unknown>): EmbedSearchParams => ({
     id: search.id ? Number(search.id) : undefined,
+    ...parseEmbedOptions(search),
   }),
   component: EmbedView,
 })
 
+// Page colors around the map, per theme
+const CHROME = {
+  light: { page: 'bg-white', bar: 'bg-gray-50', text: 'text-gray-700', muted: 'text-gray-500' },
+  dark: { page: 'bg-gray-900', bar: 'bg-gray-800 border-gray-700', text: 'text-gray-100', muted: 'text-gray-400' },
+}
+
 function EmbedView() {
   const { t } = useTranslation()
   const search = useSearch({ from: '/embed' })
+  const {
+    zoom,
+    focus,
+    depth,
+    title: showTitle = true,
+    footer: showFooter = true,
+    interactive = true,
+  } = search
+  const [themeOverride, setThemeOverride] = useState<EmbedTheme | null>(null)
+  const theme = themeOverride ?? search.theme ?? 'light'
+  const chrome = CHROME[theme]
+
+  const sharePayload = useLocation({ select: (location) => getSharePayload(location.hash) })
 
   const [parsedNodes, setParsedNodes] = useState<MindmapNode | null>(null)
+  const [shared, setShared] = useState<MindmapShare | null>(null)
+  const [shareError, setShareError] = useState(false)
+  // Document replaced by the host page
+  const [pushed, setPushed] = useState<MindmapShare | null>(null)
+  const [pendingFocus, setPendingFocus] = useState<string | null>(null)
+  const rendererRef = useRef<MindmapRendererHandle>(null)
+  const headerRef = useRef<HTMLDivElement>(null)
+  const footerRef = useRef<HTMLDivElement>(null)
+
+  // Latest parsed tree, read by message handlers
+  const parsedNodesRef = useRef(parsedNodes)
+  parsedNodesRef.current = parsedNodes
 
-  // Fetch mindmap by ID
-  const { data: mindmap, isLoading, error } = useMindmap(search.id)
+  // Decode a document carried in the link
+  useEffect(() => {
+    if (!sharePayload) return
+    let cancelled = false
+    setShareError(false)
+    decodeShare(sharePayload)
+      .then((share) => {
+        if (!cancelled) setShared(share)
+      })
+      .catch((err) => {
+        console.error('Failed to decode shared mindmap:', err)
+        if (!cancelled) setShareError(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [sharePayload])
+
+  // Fetch mindmap by ID (unless the link carries the document)
+  const {
+    data: fetched,
+    isLoading: isFetching,
+    error,
+  } = useMindmap(sharePayload ? undefined : search.id)
+  const mindmap = pushed ?? (sharePayload ? shared : fetched)
+  const isLoading = !pushed && (sharePayload ? !shared && !shareError : isFetching)
 
   // Parse content when mindmap data is loaded
   useEffect(() => {
     if (mindmap?.content) {
       try {
-        const tree = parseTextToTree(mindmap.content)
-        setParsedNodes(tree)
+        const { tree } = parseDocument(mindmap.content, mindmap.format)
+        setParsedNodes(applyEmbedView(tree, { focus, depth }))
       } catch (err) {
         console.error('Failed to parse mindmap:', err)
         setParsedNodes(null)
       }
     }
-  }, [mindmap?.content])
+  }, [mindmap?.content, mindmap?.format, focus, depth])
 
-  if (!search.id) {
+  // Message API: only when framed and asked for with `origin`
+  const localContent = search.id !== undefined && !sharePayload
+  const hostOrigin = useMemo(
+    () =>
+      window.parent === window
+        ? null
+        : getHostOrigin(search.origin, { localContent, appOrigin: window.location.origin }),
+    [search.origin, localContent]
+  )
+  const postEvent = useCallback(
+    (event: EmbedEvent) => {
+      if (hostOrigin) postEmbedEvent(window.parent, hostOrigin, event)
+    },
+    [hostOrigin]
+  )
+
+  useEffect(() => {
+    if (!hostOrigin) return
+
+    const findNode = (ref: string) => {
+      const tree = parsedNodesRef.current
+      const node = tree && findFocusNode(tree, ref)
+      if (!node) postEvent({ type: 'error', message: `Node not found: ${ref}` })
+      return node
+    }
+
+    const runCommand = (command: EmbedCommand) => {
+      switch (command.type) {
+        case 'fit':
+          rendererRef.current?.fit()
+          break
+        case 'zoom':
+          rendererRef.current?.zoomTo(command.scale)
+          break
+        case 'focus': {
+          const node = findNode(command.node)
+          if (!node) break
+          // Unfold the way to the node, then center it once it is laid out
+          setParsedNodes((tree) => tree && applyEmbedView(tree, { focus: node.id }))
+          setPendingFocus(node.id)
+          break
+        }
+        case 'expand':
+        case 'collapse': {
+          const node = command.node === undefined ? undefined : findNode(command.node)
+          if (node === null) break
+          setParsedNodes((tree) => tree && setEmbedFolding(tree, command.type === 'collapse', node?.id))
+          break
+        }
+        case 'setTheme':
+          setThemeOverride(command.theme)
+          break
+        case 'setContent':
+          try {
+            parseDocument(command.content, command.format)
+          } catch (err) {
+            postEvent({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+            break
+          }
+          setPushed({
+            title: command.title ?? '',
+            content: command.content,
+            format: command.format,
+            layout: command.layout,
+          })
+          break
+      }
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent) return
+      const result = readEmbedCommand(event, hostOrigin)
+      if (!result) return
+      if ('error' in result) {
+        postEvent({ type: 'error', message: result.error })
+      } else {
+        runCommand(result.command)
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [hostOrigin, postEvent])
+
+  // Ready once the map is shown, or right away when the host must send it
+  const isReady = parsedNodes !== null || (!search.id && !sharePayload)
+  useEffect(() => {
+    if (isReady) postEvent({ type: 'ready' })
+  }, [isReady, postEvent])
+
+  // Center a focused node after the tree change that revealed it
+  useEffect(() => {
+    if (!pendingFocus) return
+    rendererRef.current?.centerOn(pendingFocus)
+    setPendingFocus(null)
+  }, [pendingFocus, parsedNodes])
+
+  if (!search.id && !sharePayload && !pushed) {
     return (
-      <div className="h-screen flex items-center justify-center bg-gray-50">
+      <div className={`h-screen flex items-center justify-center ${chrome.bar}`}>
         <div className="text-center p-8">
-          <p className="text-gray-500">{t('pages.embed.noData')}</p>
+          <p className={chrome.muted}>{t('pages.embed.noData')}</p>
         </div>
       </div>
     )
@@ -59,49 +231,85 @@ function EmbedView() {
 
   if (isLoading) {
     return (
-      <div className="h-screen flex items-center justify-center bg-gray-50">
+      <div className={`h-screen flex items-center justify-center ${chrome.bar}`}>
         <div className="text-center p-8">
-          <p className="text-gray-500">{t('common.loading')}</p>
+          <p className={chrome.muted}>{t('common.loading')}</p>
         </div>
       </div>
     )
   }
 
-  if (error || !mindmap) {
+  if ((error && !pushed) || !mindmap) {
     return (
-      <div className="h-screen flex items-center justify-center bg-gray-50">
+      <div className={`h-screen flex items-center justify-center ${chrome.bar}`}>
         <div className="text-center p-8">
-          <p className="text-gray-500">{t('pages.embed.notFound')}</p>
+          <p className={chrome.muted}>
+            {t(shareError ? 'pages.embed.parseError' : 'pages.embed.notFound')}
+          </p>
         </div>
       </div>
     )
   }
 
+  // Folding changes the tree but keeps IDs, so the focus stays put
+  const focusNodeId = parsedNodes && focus ? findFocusNode(parsedNodes, focus)?.id : undefined
+
   return (
-    <div className="h-screen flex flex-col bg-white">
+    <div className={`h-screen flex flex-col ${chrome.page}`}>
       {/* Minimal header with title */}
-      {mindmap.title && (
-        <div className="px-4 py-2 border-b bg-gray-50">
-          <h1 className="text-sm font-medium text-gray-700 truncate">{mindmap.title}</h1>
+      {showTitle && mindmap.title && (
+        <div ref={headerRef} className={`px-4 py-2 border-b ${chrome.bar}`}>
+          <h1 className={`text-sm font-medium truncate ${chrome.text}`}>{mindmap.title}</h1>
         </div>
       )}
 
       {/* Mindmap viewer */}
-      <div className="flex-1">
-        <MindmapRenderer nodes={parsedNodes} className="h-full" />
+      <div className="flex-1 min-h-0">
+        <MindmapRenderer
+          ref={rendererRef}
+          nodes={parsedNodes}
+          layout={pushed?.layout ?? search.layout ?? mindmap.layout}
+          className="h-full"
+          theme={theme}
+          initialZoom={zoom}
+          focusNodeId={focusNodeId}
+          interactive={interactive}
+          onToggleCollapse={
+            interactive
+              ? (node) => setParsedNodes((tree) => tree && toggleNodeCollapsed(tree, node.id))
+              : undefined
+          }
+          onNodeClick={
+            hostOrigin
+              ? (node) => postEvent({ type: 'nodeClick', node: { id: node.id, text: node.text } })
+              : undefined
+          }
+          onContentSize={(size) =>
+            postEvent({
+              type: 'contentSize',
+              width: size.width,
+              height:
+                size.height +
+                (headerRef.current?.offsetHeight ?? 0) +
+                (footerRef.current?.offsetHeight ?? 0),
+            })
+          }
+        />
       </div>
 
       {/* Powered by badge */}
-      <div className="px-4 py-2 border-t bg-gray-50 flex justify-end">
-        <a
-          href={window.location.origin}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-xs text-gray-400 hover:text-gray-600"
-        >
-          {t('pages.embed.poweredBy')}
-        </a>
-      </div>
+      {showFooter && (
+        <div ref={footerRef} className={`px-4 py-2 border-t flex justify-end ${chrome.bar}`}>
+          <a
+            href={window.location.origin}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`text-xs ${chrome.muted} hover:underline`}
+          >
+            {t('pages.embed.poweredBy')}
+          </a>
+        </div>
+      )}
     </div>
   )
 }
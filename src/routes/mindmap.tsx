@@ -2,11 +2,13 @@
  * Mindmap Editor Page
  *
  * Split view editor with text input and visual preview.
- * Supports save, load, and share functionality.
+ * Supports save, load, version history, import/export (outline text,
+ * Markdown, Mermaid, OPML, FreeMind, XMind import), image, PDF and
+ * standalone HTML export, and sharing.
  */
 
 import { createFileRoute } from '@tanstack/react-router'
-import { useEffect, useCallback, useState } from 'react'
+import { useEffect, useCallback, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import {
   Save,
@@ -18,7 +20,14 @@ import {
   Download,
   Copy,
   Check,
-  X
+  X,
+  AlertTriangle,
+  Upload,
+  ImageIcon,
+  Globe,
+  Undo2,
+  Redo2,
+  History,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -30,23 +39,109 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog'
 import { Badge } from '@/components/ui/badge'
-import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import MindmapRenderer from '@/components/MindmapRenderer'
+import VersionHistory from '@/components/VersionHistory'
 import {
   useCurrentMindmap,
   useParsedNodes,
   useSavedMindmaps,
   useHasUnsavedChanges,
   useParseError,
+  useParseDiagnostics,
+  useCanUndo,
+  useCanRedo,
   useMindmapActions,
+  type MindmapDocument,
 } from '@/stores'
-import { db, type MindmapEntity } from '@/db'
-import { parseTextToTree } from '@/lib/mindmap-parser'
+import {
+  db,
+  deleteMindmapVersions,
+  recordMindmapVersion,
+  type MindmapEntity,
+  type MindmapVersionEntity,
+} from '@/db'
+import {
+  getLineOffset,
+  setLineCollapsed,
+  treeToText,
+  toggleNodeCollapsed,
+  type ParseDiagnostic,
+} from '@/lib/mindmap-parser'
+import {
+  DOCUMENT_FORMATS,
+  EXPORT_FORMATS,
+  EXPORT_FILE_TYPES,
+  IMPORT_FILE_ACCEPT,
+  parseDocument,
+  exportTree,
+  importFile,
+  isXMindFile,
+  parseXMind,
+  convertDocument,
+  detectFormat,
+  canStoreCollapsed,
+  type ExportFormat,
+} from '@/lib/formats'
+import { LAYOUT_MODES } from '@/lib/mindmap-layout'
+import { downloadFile, toFileName } from '@/lib/download'
+import {
+  AUTOSAVE_DELAY_MS,
+  DRAFT_DELAY_MS,
+  draftToDocument,
+  getDraftKey,
+  sortDrafts,
+  toDraft,
+  type RecoverableDraft,
+} from '@/lib/drafts'
+import { forkVersion, toVersion, versionToSnapshot } from '@/lib/versions'
+import {
+  buildDiffOverlay,
+  diffTrees,
+  NODE_CHANGES,
+  summarizeDiff,
+  type NodeChange,
+} from '@/lib/tree-diff'
+import { renderMindmapSvg } from '@/lib/svg-export'
+import { renderMindmapHtml } from '@/lib/html-export'
+import { buildShareUrl, getShareUrlStatus } from '@/lib/share'
+import {
+  buildEmbedUrl,
+  buildIframeSnippet,
+  EMBED_THEMES,
+  EMBED_ZOOMS,
+  type EmbedOptions,
+} from '@/lib/embed'
+import {
+  RASTER_BACKGROUNDS,
+  RASTER_FORMATS,
+  RASTER_SCALES,
+  renderMindmapRaster,
+  type RasterBackground,
+  type RasterFormat,
+} from '@/lib/raster-export'
+import {
+  PAPER_SIZES,
+  PDF_PAGE_MODES,
+  renderMindmapPdf,
+  type PaperSize,
+  type PdfPageMode,
+} from '@/lib/pdf-export'
+import type { DocumentFormat, EmbedTheme, LayoutMode, MindmapNode } from '@/schemas'
 
 export const Route = createFileRoute('/mindmap')({
   component: MindmapEditor,
 })
 
+// Legend colors of the compare bar (matching the node styles in the scene)
+const COMPARE_LEGEND: Record<NodeChange, string> = {
+  added: 'text-green-700',
+  removed: 'text-gray-400 line-through',
+  renamed: 'text-amber-600',
+  moved: 'text-violet-600',
+  reordered: 'text-blue-500',
+}
+
 function MindmapEditor() {
   const { t } = useTranslation()
 
@@ -55,28 +150,71 @@ function MindmapEditor() {
   const savedDocuments = useSavedMindmaps()
   const hasUnsavedChanges = useHasUnsavedChanges()
   const parseError = useParseError()
+  const parseDiagnostics = useParseDiagnostics()
+  const canUndo = useCanUndo()
+  const canRedo = useCanRedo()
 
   const {
     setCurrentDocument,
+    importDocument,
     updateContent,
     updateTitle,
+    updateLayout,
+    updateFormat,
+    restoreSnapshot,
     setParsedNodes,
     setParseError,
+    setParseDiagnostics,
     setSavedDocuments,
     addSavedDocument,
     updateSavedDocument,
     removeSavedDocument,
     newDocument,
     markSaved,
+    undo,
+    redo,
   } = useMindmapActions()
 
   const [isLoadDialogOpen, setIsLoadDialogOpen] = useState(false)
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false)
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+  const [imageOptions, setImageOptions] = useState({
+    scale: 2,
+    background: 'white' as RasterBackground,
+    margin: 40,
+  })
+  const [imageNotice, setImageNotice] = useState('')
+  const [pdfOptions, setPdfOptions] = useState({
+    paper: 'a4' as PaperSize,
+    pages: 'fit' as PdfPageMode,
+    cover: false,
+  })
   const [shareUrl, setShareUrl] = useState('')
-  const [embedCode, setEmbedCode] = useState('')
+  const [embedOptions, setEmbedOptions] = useState<EmbedOptions>({})
+  const [embedHeight, setEmbedHeight] = useState(400)
   const [copied, setCopied] = useState(false)
   const [embedCopied, setEmbedCopied] = useState(false)
+  const shareUrlStatus = getShareUrlStatus(shareUrl)
+  const embedCode = shareUrl
+    ? buildIframeSnippet(buildEmbedUrl(shareUrl, embedOptions), embedHeight)
+    : ''
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
+  const [recoverableDrafts, setRecoverableDrafts] = useState<RecoverableDraft[]>([])
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [versions, setVersions] = useState<MindmapVersionEntity[]>([])
+  // Bumped after each save so the open history panel reloads
+  const [versionsRevision, setVersionsRevision] = useState(0)
+  // Version the preview is compared with (compare mode)
+  const [compareVersion, setCompareVersion] = useState<MindmapVersionEntity | null>(null)
+  const editorRef = useRef<HTMLTextAreaElement>(null)
+  const titleInputRef = useRef<HTMLInputElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const format: DocumentFormat = currentDocument?.format ?? 'outline'
+
+  // Latest parsed tree, used to keep node IDs stable across reparses
+  const parsedNodesRef = useRef(parsedNodes)
+  parsedNodesRef.current = parsedNodes
 
   // Load saved documents from IndexedDB
   const loadSavedDocuments = useCallback(async () => {
@@ -86,6 +224,8 @@ function MindmapEditor() {
         id: doc.id,
         title: doc.title,
         content: doc.content,
+        format: doc.format,
+        layout: doc.layout,
         created_at: doc.created_at,
         updated_at: doc.updated_at,
       })))
@@ -99,34 +239,200 @@ function MindmapEditor() {
     loadSavedDocuments()
   }, [loadSavedDocuments])
 
+  // Offer drafts left behind by a reload or crash; drop outdated ones
+  useEffect(() => {
+    const findDrafts = async () => {
+      try {
+        const [drafts, docs] = await Promise.all([db.drafts.toArray(), db.mindmaps.toArray()])
+        const { recoverable, stale } = sortDrafts(drafts, docs)
+        await db.drafts.bulkDelete(stale.map((draft) => draft.key))
+        setRecoverableDrafts(recoverable)
+      } catch (error) {
+        console.error('Failed to read drafts:', error)
+      }
+    }
+    findDrafts()
+  }, [])
+
+  // Keep a draft of unsaved edits
+  useEffect(() => {
+    if (!currentDocument || !hasUnsavedChanges) return
+    const timer = setTimeout(() => {
+      db.drafts.put(toDraft(currentDocument)).catch((error) => {
+        console.error('Failed to write draft:', error)
+      })
+    }, DRAFT_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [currentDocument, hasUnsavedChanges])
+
+  // Load the versions of the current document while the history is open
+  useEffect(() => {
+    const id = currentDocument?.id
+    if (!isHistoryOpen || id === undefined) {
+      setVersions([])
+      return
+    }
+    let cancelled = false
+    db.mindmap_versions
+      .where('mindmap_id')
+      .equals(id)
+      .toArray()
+      .then((loaded) => !cancelled && setVersions(loaded))
+      .catch((error) => console.error('Failed to load versions:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [isHistoryOpen, currentDocument?.id, versionsRevision])
+
+  // Leave compare mode when another document is opened
+  useEffect(() => {
+    setCompareVersion(null)
+  }, [currentDocument?.id])
+
+  // Changes since the compared version, shown on the preview
+  const comparison = useMemo(() => {
+    if (!compareVersion || !parsedNodes) return null
+    try {
+      const before = parseDocument(compareVersion.content, compareVersion.format ?? 'outline').tree
+      const diff = diffTrees(before, parsedNodes)
+      return { overlay: buildDiffOverlay(diff), summary: summarizeDiff(diff) }
+    } catch (error) {
+      console.error('Failed to compare versions:', error)
+      return null
+    }
+  }, [compareVersion, parsedNodes])
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!hasUnsavedChanges) return
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [hasUnsavedChanges])
+
   // Parse content when it changes
   useEffect(() => {
     if (currentDocument?.content) {
       try {
-        const tree = parseTextToTree(currentDocument.content)
+        const { tree, diagnostics } = parseDocument(
+          currentDocument.content,
+          format,
+          { previous: parsedNodesRef.current }
+        )
         setParsedNodes(tree)
+        setParseDiagnostics(diagnostics)
         setParseError(null)
       } catch (error) {
         setParseError(error instanceof Error ? error.message : 'Parse error')
+        setParseDiagnostics([])
         setParsedNodes(null)
       }
     } else {
       setParsedNodes(null)
+      setParseDiagnostics([])
+      setParseError(null)
+    }
+  }, [currentDocument?.content, format, setParsedNodes, setParseError, setParseDiagnostics])
+
+  // Undo/redo shortcuts. The editor and title use the store history (their
+  // native undo breaks when content changes programmatically); other fields
+  // keep their own.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      const key = e.key.toLowerCase()
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)
+      if (key !== 'z' && !isRedo) return
+
+      const target = e.target as HTMLElement | null
+      const isField =
+        target?.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target?.tagName ?? '')
+      if (isField && target !== editorRef.current && target !== titleInputRef.current) return
+
+      e.preventDefault()
+      if (isRedo) {
+        redo()
+      } else {
+        undo()
+      }
     }
-  }, [currentDocument?.content, setParsedNodes, setParseError])
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
 
   // Handle content change
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     updateContent(e.target.value)
   }
 
+  // Pasting a whole Mermaid diagram switches the document to Mermaid
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const pasted = e.clipboardData.getData('text/plain')
+    const editor = e.currentTarget
+    const replacesAll =
+      editor.value.trim() === '' ||
+      (editor.selectionStart === 0 && editor.selectionEnd === editor.value.length)
+
+    if (replacesAll && format !== 'mermaid' && detectFormat(pasted) === 'mermaid') {
+      e.preventDefault()
+      updateFormat('mermaid', pasted)
+    }
+  }
+
+  // Switch the document syntax, rewriting its content
+  const handleFormatChange = (nextFormat: DocumentFormat) => {
+    if (!currentDocument || nextFormat === format) return
+    updateFormat(nextFormat, convertDocument(currentDocument.content, format, nextFormat))
+  }
+
+  // Move the editor cursor to the line a diagnostic points at
+  const handleJumpToDiagnostic = (diagnostic: ParseDiagnostic) => {
+    const editor = editorRef.current
+    if (!editor) return
+
+    const offset = getLineOffset(editor.value, diagnostic.line, diagnostic.column)
+    editor.focus()
+    editor.setSelectionRange(offset, offset)
+
+    // Scroll the line into view (approximate, based on line height)
+    const lineHeight = parseFloat(getComputedStyle(editor).lineHeight) || 20
+    editor.scrollTop = Math.max(0, (diagnostic.line - 3) * lineHeight)
+  }
+
+  // Fold/unfold a node by toggling the collapsed marker on its source line
+  const handleToggleCollapse = (node: MindmapNode) => {
+    if (!currentDocument || !parsedNodes) return
+
+    // Formats without a marker keep the flag in the parsed tree only
+    if (!canStoreCollapsed(format)) {
+      setParsedNodes(toggleNodeCollapsed(parsedNodes, node.id))
+      return
+    }
+
+    const { lines } = parseDocument(currentDocument.content, format, {
+      previous: parsedNodes,
+    })
+    const line = lines.get(node.id)
+    if (line === undefined) return
+
+    // A step of its own, not merged with typing
+    updateContent(setLineCollapsed(currentDocument.content, line, !node.collapsed), null)
+  }
+
   // Handle title change
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     updateTitle(e.target.value)
   }
 
-  // Save document
-  const handleSave = async () => {
+  // Save document, recording a version (named when it is a checkpoint;
+  // autosaves record one only now and then)
+  const handleSave = async ({
+    checkpointName,
+    auto = false,
+  }: { checkpointName?: string; auto?: boolean } = {}) => {
     if (!currentDocument) return
 
     setSaveStatus('saving')
@@ -135,26 +441,34 @@ function MindmapEditor() {
       const docData: Omit<MindmapEntity, 'id'> = {
         title: currentDocument.title,
         content: currentDocument.content,
+        format: currentDocument.format,
+        layout: currentDocument.layout,
         created_at: currentDocument.created_at,
         updated_at: now,
       }
 
-      if (currentDocument.id) {
+      let saved: MindmapDocument & { id: number }
+      if (currentDocument.id && !hasUnsavedChanges) {
+        // Nothing to write; a checkpoint still names the current state
+        saved = { ...currentDocument, id: currentDocument.id }
+      } else if (currentDocument.id) {
         // Update existing
         await db.mindmaps.put({ ...docData, id: currentDocument.id })
-        updateSavedDocument(currentDocument.id, {
-          ...currentDocument,
-          updated_at: now,
-        })
+        saved = { ...currentDocument, id: currentDocument.id, updated_at: now }
+        updateSavedDocument(currentDocument.id, saved)
       } else {
         // Create new
-        const id = await db.mindmaps.add(docData)
-        const newDoc = { ...currentDocument, id, updated_at: now }
-        addSavedDocument(newDoc)
-        setCurrentDocument(newDoc)
+        const id = (await db.mindmaps.add(docData)) as number
+        saved = { ...currentDocument, id, updated_at: now }
+        addSavedDocument(saved)
       }
 
-      markSaved()
+      await recordMindmapVersion(toVersion(saved, checkpointName), { auto })
+      setVersionsRevision((revision) => revision + 1)
+
+      // The draft (keyed by the pre-save ID) is no longer needed
+      await db.drafts.delete(getDraftKey(currentDocument))
+      markSaved(saved)
       setSaveStatus('saved')
       setTimeout(() => setSaveStatus('idle'), 2000)
     } catch (error) {
@@ -164,6 +478,50 @@ function MindmapEditor() {
     }
   }
 
+  // Autosave documents that already exist in the database (handleSave is
+  // read through a ref: only edits should restart the timer)
+  const handleSaveRef = useRef(handleSave)
+  handleSaveRef.current = handleSave
+  useEffect(() => {
+    if (!currentDocument?.id || !hasUnsavedChanges) return
+    const timer = setTimeout(() => handleSaveRef.current({ auto: true }), AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [currentDocument, hasUnsavedChanges])
+
+  // Open a recovered draft (unsaved until saved again)
+  const handleRestoreDraft = (item: RecoverableDraft) => {
+    importDocument(draftToDocument(item))
+    setRecoverableDrafts([])
+  }
+
+  const handleDiscardDrafts = async (items: RecoverableDraft[]) => {
+    const keys = items.map((item) => item.draft.key)
+    setRecoverableDrafts((drafts) => drafts.filter((item) => !keys.includes(item.draft.key)))
+    try {
+      await db.drafts.bulkDelete(keys)
+    } catch (error) {
+      console.error('Failed to discard drafts:', error)
+    }
+  }
+
+  // Bring back a version as an undoable edit (autosave then records it)
+  const handleRestoreVersion = (version: MindmapVersionEntity) => {
+    restoreSnapshot(versionToSnapshot(version))
+    setIsHistoryOpen(false)
+  }
+
+  // Open a version as a new, unsaved document
+  const handleForkVersion = (version: MindmapVersionEntity) => {
+    importDocument(forkVersion(version, t('pages.mindmap.history.forkTitle', { title: version.title })))
+    setIsHistoryOpen(false)
+  }
+
+  // Show the changes since a version on the preview
+  const handleCompareVersion = (version: MindmapVersionEntity) => {
+    setCompareVersion(version)
+    setIsHistoryOpen(false)
+  }
+
   // Load document
   const handleLoad = (doc: typeof savedDocuments[0]) => {
     setCurrentDocument(doc)
@@ -174,6 +532,8 @@ function MindmapEditor() {
   const handleDelete = async (id: number) => {
     try {
       await db.mindmaps.delete(id)
+      await db.drafts.delete(getDraftKey({ id }))
+      await deleteMindmapVersions(id)
       removeSavedDocument(id)
       if (currentDocument?.id === id) {
         newDocument()
@@ -183,30 +543,23 @@ function MindmapEditor() {
     }
   }
 
-  // Generate share URL and embed code (ID-based)
-  const handleShare = () => {
+  // Generate share URL (the embed code is built from it and the embed options)
+  const handleShare = async () => {
     if (!currentDocument) return
 
-    // Check if document is saved
-    if (!currentDocument.id) {
-      // Document needs to be saved first
-      setShareUrl('')
-      setEmbedCode('')
-      setIsShareDialogOpen(true)
-      setCopied(false)
-      setEmbedCopied(false)
-      return
-    }
-
-    // Generate ID-based URLs
-    const embedUrl = `${window.location.origin}/embed?id=${currentDocument.id}`
-    const iframe = `<iframe src="${embedUrl}" width="100%" height="400" frameborder="0" style="border: 1px solid #e5e7eb; border-radius: 8px;"></iframe>`
-
-    setShareUrl(embedUrl)
-    setEmbedCode(iframe)
+    setShareUrl('')
     setIsShareDialogOpen(true)
     setCopied(false)
     setEmbedCopied(false)
+
+    // The link carries the document, so it works without saving or a server
+    const url = await buildShareUrl(window.location.origin, {
+      title: currentDocument.title,
+      content: currentDocument.content,
+      format: currentDocument.format,
+      layout: currentDocument.layout,
+    })
+    setShareUrl(url)
   }
 
   // Copy share URL
@@ -231,17 +584,164 @@ function MindmapEditor() {
     }
   }
 
-  // Export as text file
-  const handleExport = () => {
+  // Open a file as a new, unsaved document
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      if (isXMindFile(file.name)) {
+        await importWorkbook(file)
+        return
+      }
+
+      const { title, content, format } = importFile(file.name, await file.text())
+      const now = new Date().toISOString()
+      importDocument({
+        title: title || file.name.replace(/\.[^.]+$/, '') || t('pages.mindmap.untitled'),
+        content,
+        format,
+        layout: currentDocument?.layout,
+        created_at: now,
+        updated_at: now,
+      })
+    } catch (error) {
+      console.error('Failed to import:', error)
+      setParseError(t('pages.mindmap.importFailed', { name: file.name }))
+    }
+  }
+
+  // Save every sheet of an XMind workbook as its own document, open the first
+  const importWorkbook = async (file: File) => {
+    const sheets = await parseXMind(await file.arrayBuffer())
+    if (sheets.length === 0) throw new Error('Workbook has no sheets')
+
+    const now = new Date().toISOString()
+    const docs = sheets.map(({ title, tree }) => ({
+      title,
+      content: treeToText(tree),
+      format: 'outline' as const,
+      layout: currentDocument?.layout,
+      created_at: now,
+      updated_at: now,
+    }))
+
+    const ids = await db.mindmaps.bulkAdd(docs, { allKeys: true })
+    const savedDocs = docs.map((doc, i) => ({ ...doc, id: ids[i] as number }))
+    savedDocs.forEach((doc) => addSavedDocument(doc))
+    await Promise.all(savedDocs.map((doc) => recordMindmapVersion(toVersion(doc))))
+    setCurrentDocument(savedDocs[0])
+  }
+
+  // Download the document in the given format
+  const handleExport = (target: ExportFormat) => {
+    if (!currentDocument) return
+
+    // Keep the source as written when no conversion is needed
+    const content = target === format
+      ? currentDocument.content
+      : exportTree(
+          parsedNodes ?? parseDocument(currentDocument.content, format).tree,
+          target,
+          currentDocument.title
+        )
+    const { extension, mimeType } = EXPORT_FILE_TYPES[target]
+
+    downloadFile(content, toFileName(currentDocument.title, extension), mimeType)
+    setIsExportDialogOpen(false)
+  }
+
+  // Download the preview as a standalone SVG image
+  const handleExportSvg = () => {
+    if (!currentDocument) return
+
+    const { svg } = renderMindmapSvg(
+      parsedNodes ?? parseDocument(currentDocument.content, format).tree,
+      { mode: currentDocument.layout, title: currentDocument.title }
+    )
+
+    downloadFile(svg, toFileName(currentDocument.title, 'svg'), 'image/svg+xml')
+    setIsExportDialogOpen(false)
+  }
+
+  // Download an interactive page that works without the app
+  const handleExportHtml = () => {
+    if (!currentDocument) return
+
+    const html = renderMindmapHtml(
+      parsedNodes ?? parseDocument(currentDocument.content, format).tree,
+      {
+        title: currentDocument.title,
+        content: currentDocument.content,
+        format,
+        layout: currentDocument.layout,
+        labels: {
+          search: t('pages.mindmap.html.search'),
+          fit: t('pages.mindmap.html.fit'),
+          source: t('pages.mindmap.html.source'),
+        },
+      }
+    )
+
+    downloadFile(html, toFileName(currentDocument.title, 'html'), 'text/html')
+    setIsExportDialogOpen(false)
+  }
+
+  // Download the preview as a PNG or JPEG image
+  const handleExportRaster = async (rasterFormat: RasterFormat) => {
+    if (!currentDocument) return
+    setImageNotice('')
+
+    try {
+      const { blob, scale } = await renderMindmapRaster(
+        parsedNodes ?? parseDocument(currentDocument.content, format).tree,
+        { ...imageOptions, format: rasterFormat, mode: currentDocument.layout }
+      )
+      const extension = rasterFormat === 'jpeg' ? 'jpg' : 'png'
+      downloadFile(blob, toFileName(currentDocument.title, extension), blob.type)
+
+      // Keep the dialog open to explain a reduced scale
+      if (scale < imageOptions.scale) {
+        setImageNotice(t('pages.mindmap.image.scaleReduced', { scale: scale.toFixed(1) }))
+      } else {
+        setIsExportDialogOpen(false)
+      }
+    } catch (error) {
+      console.error('Failed to export image:', error)
+      setImageNotice(t('pages.mindmap.image.failed'))
+    }
+  }
+
+  // Download the map as a PDF (one page or tiled across several)
+  const handleExportPdf = async () => {
     if (!currentDocument) return
+    setImageNotice('')
 
-    const blob = new Blob([currentDocument.content], { type: 'text/plain' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${currentDocument.title.replace(/[^a-z0-9]/gi, '_')}.txt`
-    a.click()
-    URL.revokeObjectURL(url)
+    try {
+      const blob = await renderMindmapPdf(
+        parsedNodes ?? parseDocument(currentDocument.content, format).tree,
+        {
+          paper: pdfOptions.paper,
+          pages: pdfOptions.pages,
+          mode: currentDocument.layout,
+          title: currentDocument.title,
+          cover: pdfOptions.cover
+            ? {
+                title: currentDocument.title,
+                subtitle: t('pages.mindmap.pdf.updatedAt', {
+                  date: new Date(currentDocument.updated_at).toLocaleString(),
+                }),
+              }
+            : undefined,
+        }
+      )
+      downloadFile(blob, toFileName(currentDocument.title, 'pdf'), blob.type)
+      setIsExportDialogOpen(false)
+    } catch (error) {
+      console.error('Failed to export PDF:', error)
+      setImageNotice(t('pages.mindmap.pdf.failed'))
+    }
   }
 
   return (
@@ -250,6 +750,7 @@ function MindmapEditor() {
       <div className="flex items-center justify-between p-4 border-b bg-white">
         <div className="flex items-center gap-4">
           <Input
+            ref={titleInputRef}
             value={currentDocument?.title || ''}
             onChange={handleTitleChange}
             placeholder={t('pages.mindmap.untitled')}
@@ -261,6 +762,27 @@ function MindmapEditor() {
         </div>
 
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={undo}
+            disabled={!canUndo}
+            title={t('pages.mindmap.undo')}
+            aria-label={t('pages.mindmap.undo')}
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={redo}
+            disabled={!canRedo}
+            title={t('pages.mindmap.redo')}
+            aria-label={t('pages.mindmap.redo')}
+          >
+            <Redo2 className="w-4 h-4" />
+          </Button>
+
           <Button variant="outline" size="sm" onClick={() => newDocument()}>
             <Plus className="w-4 h-4 mr-1" />
             {t('common.create')}
@@ -317,7 +839,7 @@ function MindmapEditor() {
           <Button
             variant="outline"
             size="sm"
-            onClick={handleSave}
+            onClick={() => handleSave()}
             disabled={saveStatus === 'saving'}
           >
             {saveStatus === 'saving' ? (
@@ -335,10 +857,204 @@ function MindmapEditor() {
             )}
           </Button>
 
-          <Button variant="outline" size="sm" onClick={handleExport}>
-            <Download className="w-4 h-4 mr-1" />
-            {t('pages.mindmap.export')}
+          <Button variant="outline" size="sm" onClick={() => setIsHistoryOpen(true)}>
+            <History className="w-4 h-4 mr-1" />
+            {t('pages.mindmap.history.open')}
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => importInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            {t('pages.mindmap.import')}
           </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={IMPORT_FILE_ACCEPT}
+            onChange={handleImport}
+            className="hidden"
+          />
+
+          <Dialog
+            open={isExportDialogOpen}
+            onOpenChange={(open) => {
+              setIsExportDialogOpen(open)
+              setImageNotice('')
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Download className="w-4 h-4 mr-1" />
+                {t('pages.mindmap.export')}
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-sm">
+              <DialogHeader>
+                <DialogTitle>{t('pages.mindmap.exportDocument')}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-2">
+                {EXPORT_FORMATS.map((target) => (
+                  <Button
+                    key={target}
+                    variant="outline"
+                    className="w-full justify-start"
+                    onClick={() => handleExport(target)}
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    {t(`pages.mindmap.format.${target}`)}
+                    <span className="ml-auto text-xs text-gray-500">
+                      .{EXPORT_FILE_TYPES[target].extension}
+                    </span>
+                  </Button>
+                ))}
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={handleExportSvg}
+                >
+                  <ImageIcon className="w-4 h-4 mr-2" />
+                  {t('pages.mindmap.image.svg')}
+                  <span className="ml-auto text-xs text-gray-500">.svg</span>
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={handleExportHtml}
+                >
+                  <Globe className="w-4 h-4 mr-2" />
+                  {t('pages.mindmap.html.export')}
+                  <span className="ml-auto text-xs text-gray-500">.html</span>
+                </Button>
+              </div>
+
+              {/* Raster image options */}
+              <div className="space-y-2 border-t pt-4">
+                <div className="grid grid-cols-[auto_1fr] items-center gap-2 text-sm">
+                  <label htmlFor="image-scale">{t('pages.mindmap.image.scale')}</label>
+                  <select
+                    id="image-scale"
+                    value={imageOptions.scale}
+                    onChange={(e) =>
+                      setImageOptions((options) => ({ ...options, scale: Number(e.target.value) }))
+                    }
+                    className="bg-white border border-gray-300 rounded px-2 py-1 cursor-pointer"
+                  >
+                    {RASTER_SCALES.map((scale) => (
+                      <option key={scale} value={scale}>
+                        {scale}x
+                      </option>
+                    ))}
+                  </select>
+                  <label htmlFor="image-background">{t('pages.mindmap.image.background')}</label>
+                  <select
+                    id="image-background"
+                    value={imageOptions.background}
+                    onChange={(e) =>
+                      setImageOptions((options) => ({
+                        ...options,
+                        background: e.target.value as RasterBackground,
+                      }))
+                    }
+                    className="bg-white border border-gray-300 rounded px-2 py-1 cursor-pointer"
+                  >
+                    {RASTER_BACKGROUNDS.map((background) => (
+                      <option key={background} value={background}>
+                        {t(`pages.mindmap.image.backgrounds.${background}`)}
+                      </option>
+                    ))}
+                  </select>
+                  <label htmlFor="image-margin">{t('pages.mindmap.image.margin')}</label>
+                  <Input
+                    id="image-margin"
+                    type="number"
+                    min={0}
+                    max={400}
+                    value={imageOptions.margin}
+                    onChange={(e) =>
+                      setImageOptions((options) => ({
+                        ...options,
+                        margin: Math.max(0, Number(e.target.value) || 0),
+                      }))
+                    }
+                    className="h-8"
+                  />
+                </div>
+                {RASTER_FORMATS.map((rasterFormat) => (
+                  <Button
+                    key={rasterFormat}
+                    variant="outline"
+                    className="w-full justify-start"
+                    onClick={() => handleExportRaster(rasterFormat)}
+                  >
+                    <ImageIcon className="w-4 h-4 mr-2" />
+                    {t(`pages.mindmap.image.${rasterFormat}`)}
+                    <span className="ml-auto text-xs text-gray-500">
+                      .{rasterFormat === 'jpeg' ? 'jpg' : 'png'}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+
+              {/* PDF options */}
+              <div className="space-y-2 border-t pt-4">
+                <div className="grid grid-cols-[auto_1fr] items-center gap-2 text-sm">
+                  <label htmlFor="pdf-paper">{t('pages.mindmap.pdf.paper')}</label>
+                  <select
+                    id="pdf-paper"
+                    value={pdfOptions.paper}
+                    onChange={(e) =>
+                      setPdfOptions((options) => ({ ...options, paper: e.target.value as PaperSize }))
+                    }
+                    className="bg-white border border-gray-300 rounded px-2 py-1 cursor-pointer"
+                  >
+                    {PAPER_SIZES.map((paper) => (
+                      <option key={paper} value={paper}>
+                        {t(`pages.mindmap.pdf.papers.${paper}`)}
+                      </option>
+                    ))}
+                  </select>
+                  <label htmlFor="pdf-pages">{t('pages.mindmap.pdf.pages')}</label>
+                  <select
+                    id="pdf-pages"
+                    value={pdfOptions.pages}
+                    onChange={(e) =>
+                      setPdfOptions((options) => ({ ...options, pages: e.target.value as PdfPageMode }))
+                    }
+                    className="bg-white border border-gray-300 rounded px-2 py-1 cursor-pointer"
+                  >
+                    {PDF_PAGE_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {t(`pages.mindmap.pdf.modes.${mode}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={pdfOptions.cover}
+                    onChange={(e) =>
+                      setPdfOptions((options) => ({ ...options, cover: e.target.checked }))
+                    }
+                  />
+                  {t('pages.mindmap.pdf.cover')}
+                </label>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={handleExportPdf}
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  {t('pages.mindmap.pdf.export')}
+                  <span className="ml-auto text-xs text-gray-500">.pdf</span>
+                </Button>
+                {imageNotice && <p className="text-xs text-amber-600">{imageNotice}</p>}
+              </div>
+            </DialogContent>
+          </Dialog>
 
           <Dialog open={isShareDialogOpen} onOpenChange={setIsShareDialogOpen}>
             <DialogTrigger asChild>
@@ -351,71 +1067,189 @@ function MindmapEditor() {
               <DialogHeader>
                 <DialogTitle>{t('pages.mindmap.shareDocument')}</DialogTitle>
               </DialogHeader>
-              {!currentDocument?.id ? (
-                <div className="py-4">
-                  <Alert>
-                    <AlertDescription>
-                      {t('pages.mindmap.saveFirst')}
-                    </AlertDescription>
-                  </Alert>
-                </div>
-              ) : (
-                <div className="space-y-6">
-                  {/* Embed URL section */}
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium">{t('pages.mindmap.embedUrl')}</h4>
-                    <p className="text-sm text-gray-600">
-                      {t('pages.mindmap.shareDescription')}
-                    </p>
-                    <div className="flex gap-2">
-                      <Input
-                        value={shareUrl}
-                        readOnly
-                        className="flex-1 text-xs"
-                      />
-                      <Button onClick={handleCopyUrl} size="sm">
-                        {copied ? (
-                          <Check className="w-4 h-4" />
-                        ) : (
-                          <Copy className="w-4 h-4" />
-                        )}
-                      </Button>
-                    </div>
-                    {copied && (
-                      <p className="text-sm text-green-600">
-                        {t('pages.mindmap.copied')}
-                      </p>
+              {shareUrlStatus !== 'ok' && (
+                <Alert variant={shareUrlStatus === 'tooLong' ? 'destructive' : 'default'}>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {t(
+                      shareUrlStatus === 'tooLong'
+                        ? 'pages.mindmap.shareUrlTooLong'
+                        : 'pages.mindmap.shareUrlLong',
+                      { length: shareUrl.length }
                     )}
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-6">
+                {/* Embed URL section */}
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">{t('pages.mindmap.embedUrl')}</h4>
+                  <p className="text-sm text-gray-600">
+                    {t('pages.mindmap.shareDescription')}
+                  </p>
+                  <div className="flex gap-2">
+                    <Input
+                      value={shareUrl}
+                      readOnly
+                      className="flex-1 text-xs"
+                    />
+                    <Button onClick={handleCopyUrl} size="sm">
+                      {copied ? (
+                        <Check className="w-4 h-4" />
+                      ) : (
+                        <Copy className="w-4 h-4" />
+                      )}
+                    </Button>
                   </div>
-
-                  {/* Embed code section */}
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-medium">{t('pages.mindmap.embedCode')}</h4>
-                    <p className="text-sm text-gray-600">
-                      {t('pages.mindmap.embedDescription')}
+                  {copied && (
+                    <p className="text-sm text-green-600">
+                      {t('pages.mindmap.copied')}
                     </p>
-                    <div className="flex gap-2">
-                      <textarea
-                        value={embedCode}
-                        readOnly
-                        className="flex-1 text-xs p-2 border rounded bg-gray-50 font-mono h-20 resize-none"
-                      />
-                      <Button onClick={handleCopyEmbed} size="sm" className="self-start">
-                        {embedCopied ? (
-                          <Check className="w-4 h-4" />
-                        ) : (
-                          <Copy className="w-4 h-4" />
-                        )}
-                      </Button>
-                    </div>
-                    {embedCopied && (
-                      <p className="text-sm text-green-600">
-                        {t('pages.mindmap.embedCopied')}
-                      </p>
-                    )}
+                  )}
+                </div>
+
+                {/* Embed code section */}
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">{t('pages.mindmap.embedCode')}</h4>
+                  <p className="text-sm text-gray-600">
+                    {t('pages.mindmap.embedDescription')}
+                  </p>
+                  <div className="grid grid-cols-[auto_1fr_auto_1fr] items-center gap-2 text-sm">
+                    <label htmlFor="embed-theme">{t('pages.mindmap.embed.theme')}</label>
+                    <select
+                      id="embed-theme"
+                      value={embedOptions.theme ?? 'light'}
+                      onChange={(e) =>
+                        setEmbedOptions((options) => ({ ...options, theme: e.target.value as EmbedTheme }))
+                      }
+                      className="bg-white border border-gray-300 rounded px-2 py-1 cursor-pointer"
+                    >
+                      {EMBED_THEMES.map((theme) => (
+                        <option key={theme} value={theme}>
+                          {t(`pages.mindmap.embed.themes.${theme}`)}
+                        </option>
+                      ))}
+                    </select>
+                    <label htmlFor="embed-layout">{t('pages.mindmap.layout.label')}</label>
+                    <select
+                      id="embed-layout"
+                      value={embedOptions.layout ?? ''}
+                      onChange={(e) =>
+                        setEmbedOptions((options) => ({
+                          ...options,
+                          layout: (e.target.value || undefined) as LayoutMode | undefined,
+                        }))
+                      }
+                      className="bg-white border border-gray-300 rounded px-2 py-1 cursor-pointer"
+                    >
+                      <option value="">{t('pages.mindmap.embed.documentLayout')}</option>
+                      {LAYOUT_MODES.map((mode) => (
+                        <option key={mode} value={mode}>
+                          {t(`pages.mindmap.layout.${mode}`)}
+                        </option>
+                      ))}
+                    </select>
+                    <label htmlFor="embed-zoom">{t('pages.mindmap.embed.zoom')}</label>
+                    <select
+                      id="embed-zoom"
+                      value={String(embedOptions.zoom ?? 1)}
+                      onChange={(e) =>
+                        setEmbedOptions((options) => ({
+                          ...options,
+                          zoom: e.target.value === 'fit' ? 'fit' : Number(e.target.value),
+                        }))
+                      }
+                      className="bg-white border border-gray-300 rounded px-2 py-1 cursor-pointer"
+                    >
+                      {EMBED_ZOOMS.map((zoom) => (
+                        <option key={zoom} value={zoom}>
+                          {zoom === 'fit' ? t('pages.mindmap.embed.zoomFit') : `${zoom * 100}%`}
+                        </option>
+                      ))}
+                    </select>
+                    <label htmlFor="embed-depth">{t('pages.mindmap.embed.depth')}</label>
+                    <Input
+                      id="embed-depth"
+                      type="number"
+                      min={0}
+                      placeholder={t('pages.mindmap.embed.allLevels')}
+                      value={embedOptions.depth ?? ''}
+                      onChange={(e) =>
+                        setEmbedOptions((options) => ({
+                          ...options,
+                          depth: e.target.value === '' ? undefined : Math.max(0, Math.floor(Number(e.target.value))),
+                        }))
+                      }
+                      className="h-8"
+                    />
+                    <label htmlFor="embed-focus">{t('pages.mindmap.embed.focus')}</label>
+                    <Input
+                      id="embed-focus"
+                      placeholder={t('pages.mindmap.embed.focusPlaceholder')}
+                      value={embedOptions.focus ?? ''}
+                      onChange={(e) =>
+                        setEmbedOptions((options) => ({ ...options, focus: e.target.value || undefined }))
+                      }
+                      className="h-8"
+                    />
+                    <label htmlFor="embed-origin">{t('pages.mindmap.embed.origin')}</label>
+                    <Input
+                      id="embed-origin"
+                      type="url"
+                      placeholder={t('pages.mindmap.embed.originPlaceholder')}
+                      title={t('pages.mindmap.embed.originHint')}
+                      value={embedOptions.origin ?? ''}
+                      onChange={(e) =>
+                        setEmbedOptions((options) => ({ ...options, origin: e.target.value || undefined }))
+                      }
+                      className="h-8"
+                    />
+                    <label htmlFor="embed-height">{t('pages.mindmap.embed.height')}</label>
+                    <Input
+                      id="embed-height"
+                      type="number"
+                      min={100}
+                      step={50}
+                      value={embedHeight}
+                      onChange={(e) => setEmbedHeight(Math.max(100, Number(e.target.value) || 0))}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    {(['title', 'footer', 'interactive'] as const).map((key) => (
+                      <label key={key} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={embedOptions[key] ?? true}
+                          onChange={(e) =>
+                            setEmbedOptions((options) => ({ ...options, [key]: e.target.checked }))
+                          }
+                        />
+                        {t(`pages.mindmap.embed.${key}`)}
+                      </label>
+                    ))}
                   </div>
+                  <div className="flex gap-2">
+                    <textarea
+                      value={embedCode}
+                      readOnly
+                      className="flex-1 text-xs p-2 border rounded bg-gray-50 font-mono h-20 resize-none"
+                    />
+                    <Button onClick={handleCopyEmbed} size="sm" className="self-start">
+                      {embedCopied ? (
+                        <Check className="w-4 h-4" />
+                      ) : (
+                        <Copy className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </div>
+                  {embedCopied && (
+                    <p className="text-sm text-green-600">
+                      {t('pages.mindmap.embedCopied')}
+                    </p>
+                  )}
                 </div>
-              )}
+              </div>
             </DialogContent>
           </Dialog>
         </div>
@@ -429,6 +1263,41 @@ function MindmapEditor() {
         </Alert>
       )}
 
+      {/* Parse diagnostics */}
+      {!parseError && parseDiagnostics.length > 0 && (
+        <Alert variant="warning" className="m-4 mb-0">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {t('pages.mindmap.diagnostics.title', { count: parseDiagnostics.length })}
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="max-h-32 overflow-y-auto space-y-1">
+              {parseDiagnostics.map((diagnostic) => (
+                <li key={`${diagnostic.line}-${diagnostic.code}`}>
+                  <button
+                    onClick={() => handleJumpToDiagnostic(diagnostic)}
+                    className="text-left hover:underline"
+                  >
+                    <span className="font-mono text-xs mr-2">
+                      {t('pages.mindmap.diagnostics.location', {
+                        line: diagnostic.line,
+                        column: diagnostic.column,
+                      })}
+                    </span>
+                    {t(`pages.mindmap.diagnostics.${diagnostic.code}`, diagnostic.params)}
+                    {diagnostic.fix && (
+                      <span className="block text-xs opacity-75">
+                        {t(`pages.mindmap.diagnostics.${diagnostic.code}Fix`, diagnostic.params)}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Split view */}
       <div className="flex-1 flex overflow-hidden">
         {/* Editor panel */}
@@ -436,16 +1305,35 @@ function MindmapEditor() {
           <div className="p-2 bg-gray-100 border-b flex items-center gap-2">
             <FileText className="w-4 h-4" />
             <span className="text-sm font-medium">{t('pages.mindmap.editor')}</span>
+            <label htmlFor="format-select" className="ml-auto text-xs text-gray-500">
+              {t('pages.mindmap.format.label')}
+            </label>
+            <select
+              id="format-select"
+              value={format}
+              onChange={(e) => handleFormatChange(e.target.value as DocumentFormat)}
+              className="bg-white border border-gray-300 rounded px-2 py-0.5 text-xs cursor-pointer"
+            >
+              {DOCUMENT_FORMATS.map((f) => (
+                <option key={f} value={f}>
+                  {t(`pages.mindmap.format.${f}`)}
+                </option>
+              ))}
+            </select>
           </div>
           <textarea
+            ref={editorRef}
             value={currentDocument?.content || ''}
             onChange={handleContentChange}
+            onPaste={handlePaste}
             placeholder={t('pages.mindmap.editorPlaceholder')}
             className="flex-1 p-4 font-mono text-sm resize-none focus:outline-none"
             spellCheck={false}
           />
           <div className="p-2 bg-gray-50 border-t text-xs text-gray-500">
-            {t('pages.mindmap.editorHint')}
+            {format === 'outline'
+              ? t('pages.mindmap.editorHint')
+              : t(`pages.mindmap.format.${format}Hint`)}
           </div>
         </div>
 
@@ -453,10 +1341,116 @@ function MindmapEditor() {
         <div className="w-1/2 flex flex-col">
           <div className="p-2 bg-gray-100 border-b flex items-center gap-2">
             <span className="text-sm font-medium">{t('pages.mindmap.preview')}</span>
+            <label htmlFor="layout-select" className="ml-auto text-xs text-gray-500">
+              {t('pages.mindmap.layout.label')}
+            </label>
+            <select
+              id="layout-select"
+              value={currentDocument?.layout ?? 'horizontal'}
+              onChange={(e) => updateLayout(e.target.value as LayoutMode)}
+              className="bg-white border border-gray-300 rounded px-2 py-0.5 text-xs cursor-pointer"
+            >
+              {LAYOUT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {t(`pages.mindmap.layout.${mode}`)}
+                </option>
+              ))}
+            </select>
           </div>
-          <MindmapRenderer nodes={parsedNodes} className="flex-1" />
+          {compareVersion && (
+            <div className="p-2 bg-violet-50 border-b flex flex-wrap items-center gap-3 text-xs">
+              <span className="font-medium">
+                {t('pages.mindmap.compare.title', {
+                  version:
+                    compareVersion.name ?? new Date(compareVersion.created_at).toLocaleString(),
+                })}
+              </span>
+              {comparison &&
+                NODE_CHANGES.map((change) => (
+                  <span key={change} className={COMPARE_LEGEND[change]}>
+                    {t(`pages.mindmap.compare.${change}`, { count: comparison.summary[change] })}
+                  </span>
+                ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCompareVersion(null)}
+                className="ml-auto h-6"
+              >
+                {t('pages.mindmap.compare.exit')}
+              </Button>
+            </div>
+          )}
+          <MindmapRenderer
+            nodes={comparison?.overlay.tree ?? parsedNodes}
+            layout={currentDocument?.layout}
+            className="flex-1"
+            onToggleCollapse={comparison ? undefined : handleToggleCollapse}
+            diff={comparison?.overlay.nodes}
+            formatPreviousText={(text) => t('pages.mindmap.compare.previousText', { text })}
+          />
         </div>
       </div>
+
+      <VersionHistory
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        versions={versions}
+        current={currentDocument}
+        onCheckpoint={(name) => handleSave({ checkpointName: name })}
+        onRestore={handleRestoreVersion}
+        onFork={handleForkVersion}
+        onCompare={handleCompareVersion}
+      />
+
+      {/* Recovery prompt for drafts left by a reload or crash (closing it
+          keeps them for the next start) */}
+      <Dialog
+        open={recoverableDrafts.length > 0}
+        onOpenChange={(open) => !open && setRecoverableDrafts([])}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t('pages.mindmap.recovery.title')}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">{t('pages.mindmap.recovery.description')}</p>
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {recoverableDrafts.map((item) => (
+              <div
+                key={item.draft.key}
+                className="flex items-center justify-between gap-2 p-3 border rounded"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{item.draft.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {t(item.stored ? 'pages.mindmap.recovery.editedAt' : 'pages.mindmap.recovery.unsavedAt', {
+                      time: new Date(item.draft.updated_at).toLocaleString(),
+                    })}
+                  </div>
+                </div>
+                <Button size="sm" onClick={() => handleRestoreDraft(item)}>
+                  {t('pages.mindmap.recovery.restore')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDiscardDrafts([item])}
+                  className="text-red-500 hover:text-red-700"
+                  title={t('pages.mindmap.recovery.discard')}
+                  aria-label={t('pages.mindmap.recovery.discard')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={() => handleDiscardDrafts(recoverableDrafts)}>
+              {t('pages.mindmap.recovery.discardAll')}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -11,11 +11,25 @@ import { z } from 'zod'
 // Node Schema (recursive tree structure)
 // =============================================================================
 
+// Node outlines from Mermaid mindmaps (no shape: the default rounded box)
+export const NodeShapeSchema = z.enum(['square', 'rounded', 'circle', 'bang', 'cloud', 'hexagon'])
+
+export type NodeShape = z.infer<typeof NodeShapeSchema>
+
 export interface MindmapNode {
   id: string
   text: string
   children: MindmapNode[]
   collapsed?: boolean
+  shape?: NodeShape
+  icon?: string // Icon class names, e.g. "fa fa-book"
+  classes?: string[] // CSS classes attached with :::
+  note?: string // Free text attached to the node (may span lines)
+  color?: string // Text color (CSS color)
+  link?: string // Hyperlink URL
+  arrows?: string[] // Texts of other nodes this node points to
+  labels?: string[] // Free-form tags
+  markers?: string[] // Marker IDs from XMind (e.g. "priority-1")
 }
 
 export const MindmapNodeSchema: z.ZodType<MindmapNode> = z.lazy(() =>
@@ -24,9 +38,34 @@ export const MindmapNodeSchema: z.ZodType<MindmapNode> = z.lazy(() =>
     text: z.string(),
     children: z.array(MindmapNodeSchema),
     collapsed: z.boolean().optional(),
+    shape: NodeShapeSchema.optional(),
+    icon: z.string().optional(),
+    classes: z.array(z.string()).optional(),
+    note: z.string().optional(),
+    color: z.string().optional(),
+    link: z.string().optional(),
+    arrows: z.array(z.string()).optional(),
+    labels: z.array(z.string()).optional(),
+    markers: z.array(z.string()).optional(),
   })
 )
 
+// =============================================================================
+// Layout Mode Schema
+// =============================================================================
+
+export const LayoutModeSchema = z.enum(['horizontal', 'balanced', 'radial', 'orgchart'])
+
+export type LayoutMode = z.infer<typeof LayoutModeSchema>
+
+// =============================================================================
+// Document Format Schema
+// =============================================================================
+
+export const DocumentFormatSchema = z.enum(['outline', 'mermaid', 'markdown'])
+
+export type DocumentFormat = z.infer<typeof DocumentFormatSchema>
+
 // =============================================================================
 // Mindmap Document Schema
 // =============================================================================
@@ -35,7 +74,9 @@ export const MindmapSchema = z.object({
   id: z.number().optional(),
   title: z.string().min(1, 'Title is required'),
   content: z.string(), // Raw text content
+  format: DocumentFormatSchema.optional(), // Syntax of content (default: outline)
   nodes: MindmapNodeSchema.optional(), // Parsed tree structure
+  layout: LayoutModeSchema.optional(), // Preview layout (default: horizontal)
   created_at: z.string().datetime(),
   updated_at: z.string().datetime(),
 })
@@ -49,6 +90,8 @@ export type Mindmap = z.infer<typeof MindmapSchema>
 export const MindmapCreateSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   content: z.string(),
+  format: DocumentFormatSchema.optional(),
+  layout: LayoutModeSchema.optional(),
 })
 
 export type MindmapCreate = z.infer<typeof MindmapCreateSchema>
@@ -56,6 +99,8 @@ export type MindmapCreate = z.infer<typeof MindmapCreateSchema>
 export const MindmapUpdateSchema = z.object({
   title: z.string().min(1, 'Title is required').optional(),
   content: z.string().optional(),
+  format: DocumentFormatSchema.optional(),
+  layout: LayoutModeSchema.optional(),
 })
 
 export type MindmapUpdate = z.infer<typeof MindmapUpdateSchema>
@@ -73,6 +118,32 @@ export const MindmapsListResponseSchema = z.object({
 
 export type MindmapsListResponse = z.infer<typeof MindmapsListResponseSchema>
 
+// =============================================================================
+// Version Schemas
+// =============================================================================
+
+// Snapshot recorded on save; `name` is set for manual checkpoints
+export const MindmapVersionSchema = z.object({
+  id: z.number(),
+  mindmap_id: z.number(),
+  title: z.string(),
+  content: z.string(),
+  format: DocumentFormatSchema.optional(),
+  layout: LayoutModeSchema.optional(),
+  node_count: z.number().int().nonnegative(),
+  name: z.string().optional(),
+  created_at: z.string().datetime(),
+})
+
+export type MindmapVersion = z.infer<typeof MindmapVersionSchema>
+
+export const MindmapVersionsListResponseSchema = z.object({
+  versions: z.array(MindmapVersionSchema),
+  total: z.number(),
+})
+
+export type MindmapVersionsListResponse = z.infer<typeof MindmapVersionsListResponseSchema>
+
 // =============================================================================
 // Share Schema (for URL encoding)
 // =============================================================================
@@ -80,6 +151,51 @@ export type MindmapsListResponse = z.infer<typeof MindmapsListResponseSchema>
 export const MindmapShareSchema = z.object({
   title: z.string(),
   content: z.string(),
+  format: DocumentFormatSchema.optional(),
+  layout: LayoutModeSchema.optional(),
 })
 
 export type MindmapShare = z.infer<typeof MindmapShareSchema>
+
+// =============================================================================
+// Embed Message Schemas (postMessage protocol of the /embed viewer)
+// =============================================================================
+
+export const EmbedThemeSchema = z.enum(['light', 'dark'])
+
+export type EmbedTheme = z.infer<typeof EmbedThemeSchema>
+
+// Nodes are referenced by ID or by text (first match in document order)
+const EmbedNodeRefSchema = z.string().min(1)
+
+// Commands sent by the host page to the embed
+export const EmbedCommandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('fit') }),
+  z.object({ type: z.literal('zoom'), scale: z.number().min(0.1).max(3) }),
+  z.object({ type: z.literal('focus'), node: EmbedNodeRefSchema }),
+  // Without a node: unfold everything / fold everything below the root
+  z.object({ type: z.literal('expand'), node: EmbedNodeRefSchema.optional() }),
+  z.object({ type: z.literal('collapse'), node: EmbedNodeRefSchema.optional() }),
+  z.object({ type: z.literal('setTheme'), theme: EmbedThemeSchema }),
+  z.object({
+    type: z.literal('setContent'),
+    content: z.string(),
+    format: DocumentFormatSchema.optional(),
+    title: z.string().optional(),
+    layout: LayoutModeSchema.optional(),
+  }),
+])
+
+export type EmbedCommand = z.infer<typeof EmbedCommandSchema>
+
+// Events sent by the embed to the host page
+export const EmbedEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('ready') }),
+  z.object({ type: z.literal('nodeClick'), node: z.object({ id: z.string(), text: z.string() }) }),
+  // Size (px) the embed needs to show the whole map at 100%
+  z.object({ type: z.literal('contentSize'), width: z.number(), height: z.number() }),
+  // A command was rejected (invalid message, unknown node, unparsable content)
+  z.object({ type: z.literal('error'), message: z.string() }),
+])
+
+export type EmbedEvent = z.infer<typeof EmbedEventSchema>
@@ -0,0 +1,250 @@
+/**
+ * Mindmap Slice Tests
+ *
+ * Tests for the undo/redo history and save state of the current document.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { create } from 'zustand'
+import {
+  createMindmapSlice,
+  COALESCE_MS,
+  HISTORY_LIMIT,
+  type MindmapSlice,
+} from '@/stores/slices/mindmapSlice'
+import { parseDocument } from '@/lib/formats'
+import { toggleNodeCollapsed } from '@/lib/mindmap-parser'
+import type { MindmapNode } from '@/schemas'
+
+const createStore = () => create<MindmapSlice>()(createMindmapSlice)
+
+let store: ReturnType<typeof createStore>
+
+const content = () => store.getState().currentDocument?.content
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  store = createStore()
+  store.getState().setCurrentDocument({
+    title: 'Plan',
+    content: 'Root',
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+// Type text one character at a time, `delay` ms apart
+function type(text: string, delay: number = 100) {
+  for (const char of text) {
+    vi.advanceTimersByTime(delay)
+    store.getState().updateContent(content() + char)
+  }
+}
+
+describe('undo/redo', () => {
+  it('should coalesce a burst of typing into one step', () => {
+    type(' node')
+    expect(content()).toBe('Root node')
+    expect(store.getState().undoStack).toHaveLength(1)
+
+    store.getState().undo()
+    expect(content()).toBe('Root')
+    store.getState().redo()
+    expect(content()).toBe('Root node')
+  })
+
+  it('should start a new step after a pause', () => {
+    type(' one')
+    vi.advanceTimersByTime(COALESCE_MS)
+    type(' two')
+
+    store.getState().undo()
+    expect(content()).toBe('Root one')
+    store.getState().undo()
+    expect(content()).toBe('Root')
+    expect(store.getState().undo).not.toThrow()
+    expect(content()).toBe('Root')
+  })
+
+  it('should start a new step at a new line', () => {
+    type('\n  Child')
+    type('\n  Other')
+
+    store.getState().undo()
+    expect(content()).toBe('Root\n  Child')
+  })
+
+  it('should keep canvas, layout and format edits as separate steps', () => {
+    type(' A')
+    store.getState().updateContent('Root A [-]', null)
+    store.getState().updateLayout('radial')
+    store.getState().updateFormat('markdown', '# Root A')
+
+    const { undo } = store.getState()
+    undo()
+    expect(store.getState().currentDocument).toMatchObject({ format: undefined, content: 'Root A [-]', layout: 'radial' })
+    undo()
+    expect(store.getState().currentDocument?.layout).toBeUndefined()
+    undo()
+    expect(content()).toBe('Root A')
+  })
+
+  it('should coalesce title edits separately from content', () => {
+    store.getState().updateTitle('Plan 2')
+    store.getState().updateTitle('Plan 24')
+    type('!')
+
+    store.getState().undo()
+    expect(store.getState().currentDocument).toMatchObject({ title: 'Plan 24', content: 'Root' })
+    store.getState().undo()
+    expect(store.getState().currentDocument?.title).toBe('Plan')
+  })
+
+  it('should clear redo after a new edit', () => {
+    type('!')
+    store.getState().undo()
+    expect(store.getState().redoStack).toHaveLength(1)
+
+    type('?')
+    expect(store.getState().redoStack).toHaveLength(0)
+  })
+
+  it('should ignore edits that change nothing', () => {
+    store.getState().updateContent('Root')
+    expect(store.getState().undoStack).toHaveLength(0)
+  })
+
+  it('should keep a bounded number of steps', () => {
+    for (let i = 0; i < HISTORY_LIMIT + 10; i++) {
+      store.getState().updateContent(`Root ${i}`, null)
+    }
+    expect(store.getState().undoStack).toHaveLength(HISTORY_LIMIT)
+    expect(store.getState().undoStack[0].content).toBe('Root 9')
+  })
+
+  it('should clear history when another document is opened', () => {
+    type('!')
+    store.getState().newDocument()
+    expect(store.getState().undoStack).toHaveLength(0)
+    expect(store.getState().redoStack).toHaveLength(0)
+  })
+})
+
+describe('restoreSnapshot', () => {
+  it('should restore an earlier state as one undoable step', () => {
+    type(' node')
+    store.getState().restoreSnapshot({ title: 'Old', content: 'Old root', layout: 'radial' })
+    expect(store.getState().currentDocument).toMatchObject({ title: 'Old', content: 'Old root', layout: 'radial' })
+    expect(store.getState().hasUnsavedChanges).toBe(true)
+
+    store.getState().undo()
+    expect(store.getState().currentDocument).toMatchObject({ title: 'Plan', content: 'Root node' })
+  })
+})
+
+describe('markSaved', () => {
+  it('should take the ID of a new document and keep its history', () => {
+    store.getState().newDocument()
+    type('!')
+    const saved = { ...store.getState().currentDocument!, id: 3 }
+
+    store.getState().markSaved(saved)
+    expect(store.getState().currentDocument?.id).toBe(3)
+    expect(store.getState().hasUnsavedChanges).toBe(false)
+    expect(store.getState().undoStack).toHaveLength(1)
+  })
+
+  it('should stay unsaved when edited while saving', () => {
+    type('!')
+    const saved = store.getState().currentDocument!
+    vi.advanceTimersByTime(COALESCE_MS)
+    type('?')
+
+    store.getState().markSaved(saved)
+    expect(store.getState().hasUnsavedChanges).toBe(true)
+    expect(content()).toBe('Root!?')
+  })
+})
+
+describe('save state', () => {
+  it('should be saved again after undoing back to the opened document', () => {
+    type('!')
+    expect(store.getState().hasUnsavedChanges).toBe(true)
+
+    store.getState().undo()
+    expect(store.getState().hasUnsavedChanges).toBe(false)
+    store.getState().redo()
+    expect(store.getState().hasUnsavedChanges).toBe(true)
+  })
+
+  it('should compare with the last saved state', () => {
+    type('!')
+    store.getState().markSaved(store.getState().currentDocument!)
+
+    store.getState().undo()
+    expect(store.getState().hasUnsavedChanges).toBe(true)
+    store.getState().redo()
+    expect(store.getState().hasUnsavedChanges).toBe(false)
+  })
+
+  it('should stay unsaved for an imported document', () => {
+    store.getState().importDocument({ ...store.getState().currentDocument!, id: undefined })
+    type('!')
+
+    store.getState().undo()
+    expect(store.getState().hasUnsavedChanges).toBe(true)
+  })
+})
+
+describe('opening another document', () => {
+  const collectIds = (node: MindmapNode): string[] => [node.id, ...node.children.flatMap(collectIds)]
+
+  // Parse the current document the way the editor does, reconciling with
+  // the tree in the store
+  const parseCurrent = () => {
+    const { currentDocument, parsedNodes } = store.getState()
+    const { tree } = parseDocument(currentDocument!.content, currentDocument!.format ?? 'outline', {
+      previous: parsedNodes,
+    })
+    store.getState().setParsedNodes(tree)
+    return tree
+  }
+
+  it('should not carry node IDs over from the previous document', () => {
+    store.getState().setCurrentDocument({ ...store.getState().currentDocument!, id: 1, content: 'Alpha\n  One\n  Two' })
+    const first = parseCurrent()
+
+    store.getState().setCurrentDocument({ ...store.getState().currentDocument!, id: 2, content: 'Beta\n  Three\n  Four' })
+    expect(store.getState().parsedNodes).toBeNull()
+
+    const second = parseCurrent()
+    expect(second).toEqual(parseDocument('Beta\n  Three\n  Four', 'outline').tree)
+    // The root ID is the same in every document
+    const firstIds = collectIds(first).slice(1)
+    expect(collectIds(second).slice(1).filter((id) => firstIds.includes(id))).toEqual([])
+  })
+
+  it('should not carry folds over between Mermaid maps', () => {
+    const doc = store.getState().currentDocument!
+    store.getState().setCurrentDocument({ ...doc, id: 1, format: 'mermaid', content: 'mindmap\n  Alpha\n    One\n      Deep' })
+    const first = parseCurrent()
+    store.getState().setParsedNodes(toggleNodeCollapsed(first, first.children[0].id))
+
+    store.getState().setCurrentDocument({ ...doc, id: 2, format: 'mermaid', content: 'mindmap\n  Beta\n    Two\n      Deeper' })
+    expect(parseCurrent().children[0].collapsed).toBeUndefined()
+  })
+
+  it('should not carry folds over between Markdown maps', () => {
+    const doc = store.getState().currentDocument!
+    store.getState().setCurrentDocument({ ...doc, id: 1, format: 'markdown', content: '# Alpha\n\n## One\n\n- Deep' })
+    const first = parseCurrent()
+    store.getState().setParsedNodes(toggleNodeCollapsed(first, first.children[0].id))
+
+    store.getState().setCurrentDocument({ ...doc, id: 2, format: 'markdown', content: '# Beta\n\n## Two\n\n- Deeper' })
+    expect(parseCurrent().children[0].collapsed).toBeUndefined()
+  })
+})
@@ -134,6 +134,9 @@ export const useParsedNodes = () => useStore(state => state.parsedNodes)
 export const useSavedMindmaps = () => useStore(state => state.savedDocuments)
 export const useHasUnsavedChanges = () => useStore(state => state.hasUnsavedChanges)
 export const useParseError = () => useStore(state => state.parseError)
+export const useParseDiagnostics = () => useStore(state => state.parseDiagnostics)
+export const useCanUndo = () => useStore(state => state.undoStack.length > 0)
+export const useCanRedo = () => useStore(state => state.redoStack.length > 0)
 
 /**
  * Action hooks for better organization
@@ -192,16 +195,23 @@ export const useWorkflowActions = () => useStore(
 export const useMindmapActions = () => useStore(
   useShallow(state => ({
     setCurrentDocument: state.setCurrentDocument,
+    importDocument: state.importDocument,
     updateContent: state.updateContent,
     updateTitle: state.updateTitle,
+    updateLayout: state.updateLayout,
+    updateFormat: state.updateFormat,
+    restoreSnapshot: state.restoreSnapshot,
     setParsedNodes: state.setParsedNodes,
     setParseError: state.setParseError,
+    setParseDiagnostics: state.setParseDiagnostics,
     setSavedDocuments: state.setSavedDocuments,
     addSavedDocument: state.addSavedDocument,
     updateSavedDocument: state.updateSavedDocument,
     removeSavedDocument: state.removeSavedDocument,
     newDocument: state.newDocument,
     markSaved: state.markSaved,
+    undo: state.undo,
+    redo: state.redo,
   }))
 )
 
@@ -228,4 +238,4 @@ export type { User, Post } from './slices/apiSlice'
 export type { Theme, Language, Notification } from './slices/uiSlice'
 export type { Task } from './slices/taskSlice'
 export type { WorkItem, WorkLog, WorkStatus } from './slices/workflowSlice'
-export type { MindmapDocument } from './slices/mindmapSlice'
+export type { MindmapDocument, DocumentSnapshot, EditGroup } from './slices/mindmapSlice'
@@ -3,19 +3,34 @@
  *
  * Purpose: Handle mindmap editing, parsing, and document management
  * Use cases: Mindmap editor, preview, save/load operations
+ *
+ * Edits to the current document are recorded on a bounded undo stack.
+ * Consecutive edits in the same group (e.g. typing) within a short pause
+ * are coalesced into one step; edits without a group are always a step of
+ * their own.
  */
 
 import type { StateCreator } from 'zustand'
-import type { MindmapNode } from '@/schemas'
+import type { DocumentFormat, LayoutMode, MindmapNode } from '@/schemas'
+import type { ParseDiagnostic } from '@/lib/mindmap-parser'
 
 export interface MindmapDocument {
   id?: number
   title: string
   content: string
+  format?: DocumentFormat
+  layout?: LayoutMode
   created_at: string
   updated_at: string
 }
 
+// Parts of the document covered by undo/redo
+export type DocumentSnapshot = Pick<MindmapDocument, 'title' | 'content' | 'format' | 'layout'>
+
+// Coalescing group of an edit: 'typing' and 'title' merge while the user
+// keeps typing; null never merges (structural edits, layout, format)
+export type EditGroup = 'typing' | 'title' | null
+
 export interface MindmapSlice {
   // State
   currentDocument: MindmapDocument | null
@@ -24,22 +39,42 @@ export interface MindmapSlice {
   isEditing: boolean
   hasUnsavedChanges: boolean
   parseError: string | null
+  parseDiagnostics: ParseDiagnostic[]
+  // Snapshots before each step (oldest first) and undone steps (newest last)
+  undoStack: DocumentSnapshot[]
+  redoStack: DocumentSnapshot[]
+  // Group and time of the last recorded edit, for coalescing
+  lastEdit: { group: EditGroup; at: number } | null
+  // Document state as last loaded or saved (null if never saved)
+  savedSnapshot: DocumentSnapshot | null
 
   // Actions
   setCurrentDocument: (doc: MindmapDocument | null) => void
-  updateContent: (content: string) => void
+  importDocument: (doc: MindmapDocument) => void
+  updateContent: (content: string, group?: EditGroup) => void
   updateTitle: (title: string) => void
+  updateLayout: (layout: LayoutMode) => void
+  updateFormat: (format: DocumentFormat, content: string) => void
+  restoreSnapshot: (snapshot: DocumentSnapshot) => void
   setParsedNodes: (nodes: MindmapNode | null) => void
   setParseError: (error: string | null) => void
+  setParseDiagnostics: (diagnostics: ParseDiagnostic[]) => void
   setSavedDocuments: (docs: MindmapDocument[]) => void
   addSavedDocument: (doc: MindmapDocument) => void
   updateSavedDocument: (id: number, doc: MindmapDocument) => void
   removeSavedDocument: (id: number) => void
   newDocument: () => void
-  markSaved: () => void
+  markSaved: (saved?: MindmapDocument) => void
+  undo: () => void
+  redo: () => void
   reset: () => void
 }
 
+// Maximum number of undo steps kept
+export const HISTORY_LIMIT = 100
+// Edits in the same group closer together than this are one step
+export const COALESCE_MS = 1000
+
 const createNewDocument = (): MindmapDocument => ({
   title: 'Untitled Mindmap',
   content: `Root Node
@@ -59,6 +94,74 @@ const initialState = {
   isEditing: true,
   hasUnsavedChanges: false,
   parseError: null as string | null,
+  parseDiagnostics: [] as ParseDiagnostic[],
+  undoStack: [] as DocumentSnapshot[],
+  redoStack: [] as DocumentSnapshot[],
+  lastEdit: null as MindmapSlice['lastEdit'],
+  savedSnapshot: null as DocumentSnapshot | null,
+}
+
+// Cleared history, for when another document is opened
+const emptyHistory = {
+  undoStack: [] as DocumentSnapshot[],
+  redoStack: [] as DocumentSnapshot[],
+  lastEdit: null,
+}
+
+const toSnapshot = ({ title, content, format, layout }: MindmapDocument): DocumentSnapshot => ({
+  title,
+  content,
+  format,
+  layout,
+})
+
+const countLines = (text: string) => text.split('\n').length
+
+const isSameSnapshot = (a: DocumentSnapshot, b: DocumentSnapshot) =>
+  a.title === b.title && a.content === b.content && a.format === b.format && a.layout === b.layout
+
+// History fields for an edit of the current document: a new undo step,
+// unless it continues the previous edit of the same group
+const recordEdit = (state: MindmapSlice, group: EditGroup, content?: string) => {
+  const { currentDocument: current, undoStack, lastEdit } = state
+  const now = Date.now()
+  const continues =
+    group !== null &&
+    lastEdit?.group === group &&
+    now - lastEdit.at < COALESCE_MS &&
+    undoStack.length > 0 &&
+    // A new line starts a new step
+    (content === undefined || countLines(content) === countLines(current!.content))
+
+  return {
+    undoStack: continues ? undoStack : [...undoStack, toSnapshot(current!)].slice(-HISTORY_LIMIT),
+    redoStack: [] as DocumentSnapshot[],
+    lastEdit: { group, at: now },
+  }
+}
+
+// Move one step between the stacks, restoring the target snapshot
+const travel = (
+  state: MindmapSlice,
+  from: 'undoStack' | 'redoStack',
+  to: 'undoStack' | 'redoStack'
+): Partial<MindmapSlice> => {
+  const current = state.currentDocument
+  const target = state[from].at(-1)
+  if (!current || !target) return {}
+
+  return {
+    currentDocument: {
+      ...current,
+      ...target,
+      updated_at: new Date().toISOString(),
+    },
+    // Back at the saved state counts as saved
+    hasUnsavedChanges: !state.savedSnapshot || !isSameSnapshot(target, state.savedSnapshot),
+    [from]: state[from].slice(0, -1),
+    [to]: [...state[to], toSnapshot(current)],
+    lastEdit: null,
+  }
 }
 
 export const createMindmapSlice: StateCreator<MindmapSlice> = (set, get) => ({
@@ -67,14 +170,32 @@ export const createMindmapSlice: StateCreator<MindmapSlice> = (set, get) => ({
   setCurrentDocument: (doc) => {
     set({
       currentDocument: doc,
+      parsedNodes: null,
       hasUnsavedChanges: false,
       parseError: null,
+      parseDiagnostics: [],
+      ...emptyHistory,
+      savedSnapshot: doc && toSnapshot(doc),
+    })
+  },
+
+  // Open a document that came from a file; it is not saved yet
+  importDocument: (doc) => {
+    set({
+      currentDocument: doc,
+      parsedNodes: null,
+      hasUnsavedChanges: true,
+      parseError: null,
+      parseDiagnostics: [],
+      ...emptyHistory,
+      savedSnapshot: null,
     })
   },
 
-  updateContent: (content) => {
+  // Text edits; edits made from the canvas pass a null group
+  updateContent: (content, group = 'typing') => {
     const current = get().currentDocument
-    if (current) {
+    if (current && content !== current.content) {
       set({
         currentDocument: {
           ...current,
@@ -82,6 +203,7 @@ export const createMindmapSlice: StateCreator<MindmapSlice> = (set, get) => ({
           updated_at: new Date().toISOString(),
         },
         hasUnsavedChanges: true,
+        ...recordEdit(get(), group, content),
       })
     }
   },
@@ -96,6 +218,55 @@ export const createMindmapSlice: StateCreator<MindmapSlice> = (set, get) => ({
           updated_at: new Date().toISOString(),
         },
         hasUnsavedChanges: true,
+        ...recordEdit(get(), 'title'),
+      })
+    }
+  },
+
+  updateLayout: (layout) => {
+    const current = get().currentDocument
+    if (current) {
+      set({
+        currentDocument: {
+          ...current,
+          layout,
+          updated_at: new Date().toISOString(),
+        },
+        hasUnsavedChanges: true,
+        ...recordEdit(get(), null),
+      })
+    }
+  },
+
+  // Switch syntax; content is the document converted to the new format
+  updateFormat: (format, content) => {
+    const current = get().currentDocument
+    if (current) {
+      set({
+        currentDocument: {
+          ...current,
+          format,
+          content,
+          updated_at: new Date().toISOString(),
+        },
+        hasUnsavedChanges: true,
+        ...recordEdit(get(), null),
+      })
+    }
+  },
+
+  // Bring back an earlier state (e.g. a saved version) as one undo step
+  restoreSnapshot: (snapshot) => {
+    const current = get().currentDocument
+    if (current) {
+      set({
+        currentDocument: {
+          ...current,
+          ...snapshot,
+          updated_at: new Date().toISOString(),
+        },
+        hasUnsavedChanges: true,
+        ...recordEdit(get(), null),
       })
     }
   },
@@ -108,6 +279,10 @@ export const createMindmapSlice: StateCreator<MindmapSlice> = (set, get) => ({
     set({ parseError: error })
   },
 
+  setParseDiagnostics: (diagnostics) => {
+    set({ parseDiagnostics: diagnostics })
+  },
+
   setSavedDocuments: (docs) => {
     set({ savedDocuments: docs })
   },
@@ -133,17 +308,37 @@ export const createMindmapSlice: StateCreator<MindmapSlice> = (set, get) => ({
   },
 
   newDocument: () => {
+    const doc = createNewDocument()
     set({
-      currentDocument: createNewDocument(),
+      currentDocument: doc,
       parsedNodes: null,
       hasUnsavedChanges: false,
       parseError: null,
+      parseDiagnostics: [],
+      ...emptyHistory,
+      savedSnapshot: toSnapshot(doc),
     })
   },
 
-  markSaved: () => {
-    set({ hasUnsavedChanges: false })
+  // `saved` is the document as written (with its ID once created); edits
+  // made while saving keep the document unsaved
+  markSaved: (saved) => {
+    const current = get().currentDocument
+    if (!saved || !current) {
+      set({ hasUnsavedChanges: false, savedSnapshot: current && toSnapshot(current) })
+      return
+    }
+    const snapshot = toSnapshot(saved)
+    set({
+      currentDocument: { ...current, id: saved.id },
+      hasUnsavedChanges: !isSameSnapshot(toSnapshot(current), snapshot),
+      savedSnapshot: snapshot,
+    })
   },
 
+  undo: () => set(travel(get(), 'undoStack', 'redoStack')),
+
+  redo: () => set(travel(get(), 'redoStack', 'undoStack')),
+
   reset: () => set(initialState),
 })
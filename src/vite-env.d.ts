@@ -20,6 +20,13 @@ declare module 'virtual:pwa-register/react' {
   }
 }
 
+// Bundled standalone HTML viewer (see vite-plugin-html-viewer.ts)
+declare module 'virtual:html-viewer' {
+  // Classic script that assigns the html-viewer module to `viewerGlobal`
+  export const viewerScript: string
+  export const viewerGlobal: string
+}
+
 // Environment variables
 interface ImportMetaEnv {
   readonly VITE_API_MODE: 'mock' | 'real'
@@ -0,0 +1,59 @@
+import { build, type Plugin, type Rollup } from 'vite'
+import { fileURLToPath, URL } from 'node:url'
+
+// Bundles the standalone HTML viewer (src/lib/html-viewer.ts) with the
+// layout code it imports into one classic script, exposed as
+// `virtual:html-viewer`. HTML exports inline that script, so the offline
+// page lays out maps with the same code as the app.
+
+const VIRTUAL_ID = 'virtual:html-viewer'
+const RESOLVED_ID = `\0${VIRTUAL_ID}`
+const ENTRY = fileURLToPath(new URL('./src/lib/html-viewer.ts', import.meta.url))
+// Global the script assigns the viewer module to
+const VIEWER_GLOBAL = 'MindmapViewer'
+
+export function htmlViewer(): Plugin {
+  return {
+    name: 'html-viewer',
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_ID) return
+
+      const result = await build({
+        configFile: false,
+        logLevel: 'warn',
+        publicDir: false,
+        resolve: {
+          alias: {
+            '@': fileURLToPath(new URL('./src', import.meta.url)),
+          },
+        },
+        build: {
+          write: false,
+          lib: {
+            entry: ENTRY,
+            name: VIEWER_GLOBAL,
+            formats: ['iife'],
+          },
+        },
+      })
+      const output = (Array.isArray(result) ? result[0] : result) as Rollup.RollupOutput
+      const chunk = output.output.find((item): item is Rollup.OutputChunk => item.type === 'chunk')
+      if (!chunk) {
+        throw new Error('HTML viewer build produced no script')
+      }
+
+      // Rebuild when the viewer or anything it imports changes
+      for (const moduleId of chunk.moduleIds) this.addWatchFile(moduleId)
+
+      return [
+        `export const viewerScript = ${JSON.stringify(chunk.code)}`,
+        `export const viewerGlobal = ${JSON.stringify(VIEWER_GLOBAL)}`,
+      ].join('\n')
+    },
+  }
+}
@@ -0,0 +1,30 @@
+import { defineConfig } from 'vite'
+import viteReact from '@vitejs/plugin-react'
+import tailwindcss from '@tailwindcss/vite'
+import { fileURLToPath, URL } from 'node:url'
+
+// Standalone <mind-map> element bundle (React included), for pages that
+// cannot host the app. Build with `pnpm build:element`.
+export default defineConfig({
+  plugins: [viteReact(), tailwindcss()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  // Library builds keep process.env references, which browsers lack
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  publicDir: false,
+  build: {
+    outDir: 'dist-element',
+    lib: {
+      entry: fileURLToPath(new URL('./src/mind-map-element.ts', import.meta.url)),
+      name: 'MindMapElement',
+      // ES module for <script type="module">, IIFE for classic <script>
+      formats: ['es', 'iife'],
+      fileName: (format) => (format === 'es' ? 'mind-map.js' : 'mind-map.iife.js'),
+    },
+  },
+})
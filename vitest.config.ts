@@ -1,7 +1,9 @@
 import { defineConfig } from 'vitest/config'
 import { fileURLToPath, URL } from 'node:url'
+import { htmlViewer } from './vite-plugin-html-viewer'
 
 export default defineConfig({
+  plugins: [htmlViewer()],
   test: {
     environment: 'jsdom',
     globals: true,